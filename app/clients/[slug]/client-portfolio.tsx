@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, ExternalLink } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { ClientLogo } from '@/app/components/client-logo';
+import { InstanceCard } from '@/app/components/instance-card';
+import { loadAssetManifest, selectProjectAssets, type AssetManifest } from '@/app/lib/asset-manifest';
+import { DEFAULT_CATALOG_FILTERS, INSTANCE_TYPES, loadCatalog, sortInstances } from '@/app/lib/catalog';
+import { getClient, selectClientPortfolio } from '@/app/lib/clients';
+import { filtersToSearchParams } from '@/app/lib/filter-url';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+interface ClientPortfolioProps {
+  slug: string;
+  name: string; // Canonical client name, shown before the catalog has loaded
+}
+
+/**
+ * Showroom and Unit Finder projects of one client, filtered by role at runtime
+ */
+export function ClientPortfolio({ slug, name }: ClientPortfolioProps) {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [basePath, setBasePath] = useState('');
+  const rolePolicy = useRolePolicy();
+  const client = getClient(name);
+
+  useEffect(() => {
+    const currentBasePath = getBasePath();
+    setBasePath(currentBasePath);
+    Promise.all([loadCatalog(currentBasePath), loadAssetManifest(currentBasePath)])
+      .then(([catalog, manifest]) => {
+        setInstances(catalog.instances);
+        setAssetManifest(manifest);
+      })
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const portfolio = useMemo(
+    () => selectClientPortfolio(selectVisibleInstances(instances, rolePolicy), slug),
+    [instances, rolePolicy, slug]
+  );
+
+  const sections = useMemo(
+    () =>
+      INSTANCE_TYPES.map((type) => ({
+        type,
+        instances: sortInstances(
+          (portfolio?.instances ?? []).filter((instance) => instance.type === type),
+          'name',
+          'asc'
+        ),
+      })).filter((section) => section.instances.length > 0),
+    [portfolio]
+  );
+
+  const gridLink = `/instances?${filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, client: client.name })}`;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-7xl mx-auto px-6 py-8">
+        <Link
+          href="/clients"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All clients
+        </Link>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <ClientLogo name={client.name} size="lg" />
+            <div>
+              <h1 className="text-4xl font-bold mb-1">{client.name}</h1>
+              <p className="text-muted-foreground">
+                {portfolio ? portfolio.instances.length : 0} {portfolio?.instances.length === 1 ? 'project' : 'projects'}
+                {client.aliases && client.aliases.length > 0 && ` · Also listed as ${client.aliases.join(', ')}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {client.website && (
+              <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+                <a href={client.website} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Website
+                </a>
+              </Button>
+            )}
+            <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+              <Link href={gridLink}>Open in instance grid</Link>
+            </Button>
+          </div>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {sections.map((section) => (
+          <section key={section.type} className="mb-10">
+            <h2 className="text-2xl font-semibold mb-4">
+              {section.type}
+              <span className="ml-2 text-base font-normal text-muted-foreground">{section.instances.length}</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {section.instances.map((instance, index) => (
+                <InstanceCard
+                  key={instance.id}
+                  instance={instance}
+                  basePath={basePath}
+                  index={index}
+                  rolePolicy={rolePolicy}
+                  assets={selectProjectAssets(assetManifest, instance.uuid)}
+                />
+              ))}
+            </div>
+          </section>
+        ))}
+
+        {!loading && !loadError && sections.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No projects for this client are available for your role</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
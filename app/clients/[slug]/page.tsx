@@ -0,0 +1,27 @@
+import { notFound } from 'next/navigation';
+import { readCatalog } from '@/app/lib/catalog-server';
+import { selectClientPortfolio, selectClientPortfolios } from '@/app/lib/clients';
+import { ClientPortfolio } from './client-portfolio';
+
+// Every client is exported as a static page; unknown slugs 404 on GitHub Pages
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return selectClientPortfolios(readCatalog().instances).map((portfolio) => ({ slug: portfolio.client.slug }));
+}
+
+export function generateMetadata({ params }: { params: { slug: string } }) {
+  const portfolio = selectClientPortfolio(readCatalog().instances, params.slug);
+  return {
+    title: portfolio ? `${portfolio.client.name} - Sales Showcase` : 'Clients - Sales Showcase',
+  };
+}
+
+export default function ClientPortfolioPage({ params }: { params: { slug: string } }) {
+  const portfolio = selectClientPortfolio(readCatalog().instances, params.slug);
+  if (!portfolio) {
+    notFound();
+  }
+
+  return <ClientPortfolio slug={portfolio.client.slug} name={portfolio.client.name} />;
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import '../globals.css';
+import { useAuthGuard } from '@/app/components/auth-provider';
+
+export default function ClientsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { status } = useAuthGuard();
+
+  if (status !== 'authenticated') {
+    return null; // Prevents flashing content
+  }
+
+  return children;
+}
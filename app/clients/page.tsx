@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, Search } from 'lucide-react';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { ClientLogo } from '@/app/components/client-logo';
+import { loadCatalog } from '@/app/lib/catalog';
+import { selectClientPortfolios } from '@/app/lib/clients';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+export default function ClientsPage() {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const rolePolicy = useRolePolicy();
+
+  useEffect(() => {
+    loadCatalog(getBasePath())
+      .then((catalog) => setInstances(catalog.instances))
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const portfolios = useMemo(
+    () => selectClientPortfolios(selectVisibleInstances(instances, rolePolicy)),
+    [instances, rolePolicy]
+  );
+
+  const shown = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return portfolios;
+    return portfolios.filter(({ client }) =>
+      [client.name, ...(client.aliases ?? [])].some((name) => name.toLowerCase().includes(needle))
+    );
+  }, [portfolios, query]);
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-6xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Clients</h1>
+            <p className="text-muted-foreground">
+              {portfolios.length} clients with {portfolios.reduce((sum, portfolio) => sum + portfolio.instances.length, 0)} projects
+            </p>
+          </div>
+          <div className="flex items-center gap-2 relative">
+            <Search className="absolute left-3 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              type="text"
+              placeholder="Search clients..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-[250px] pl-9"
+            />
+          </div>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {shown.map(({ client, instances: clientInstances, showrooms, unitFinders }) => (
+            <Link key={client.slug} href={`/clients/${client.slug}`} className="block">
+              <Card className="h-full hover:bg-white/5 transition-colors" style={{ backgroundColor: 'transparent' }}>
+                <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                  <ClientLogo name={client.name} size="lg" />
+                  <div className="min-w-0">
+                    <CardTitle className="text-lg truncate">{client.name}</CardTitle>
+                    <CardDescription>
+                      {clientInstances.length} {clientInstances.length === 1 ? 'project' : 'projects'}
+                      {showrooms > 0 && ` · ${showrooms} Showroom`}
+                      {unitFinders > 0 && ` · ${unitFinders} Unit Finder`}
+                    </CardDescription>
+                  </div>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+        </div>
+
+        {!loading && shown.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No clients found</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
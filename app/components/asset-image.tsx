@@ -0,0 +1,59 @@
+'use client';
+
+import React, { forwardRef, useEffect, useMemo, useState } from 'react';
+import {
+  confirmAssetMissing,
+  markAssetAvailable,
+  orderAssetCandidates,
+  type AssetKind,
+} from '@/app/lib/assets';
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  projectId: string | null;
+  sources: Array<string | null | undefined>; // Tried in order, skipping URLs known to be missing
+  kind: AssetKind;
+  fallbackSrc?: string; // Shown once every source failed; renders nothing when omitted
+  srcSet?: string; // Alternative sizes of the first source, dropped once that source fails
+}
+
+/**
+ * <img> that walks through its sources via the asset resolver, so a missing
+ * file is only ever requested once per session
+ */
+export const AssetImage = forwardRef<HTMLImageElement, AssetImageProps>(function AssetImage(
+  { projectId, sources, kind, fallbackSrc, srcSet, onError, onLoad, ...imgProps },
+  ref
+) {
+  // Callers usually pass a fresh array each render, so key the candidates on its contents
+  const sourcesKey = sources.filter(Boolean).join('\n');
+  const candidates = useMemo(() => orderAssetCandidates(projectId, sourcesKey.split('\n')), [projectId, sourcesKey]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+  }, [candidates]);
+
+  const src = candidates[index] ?? fallbackSrc;
+  if (!src) return null;
+
+  return (
+    <img
+      {...imgProps}
+      ref={ref}
+      src={src}
+      srcSet={src === sources[0] ? srcSet : undefined}
+      onLoad={(e) => {
+        if (src === candidates[index]) markAssetAvailable(src, projectId);
+        onLoad?.(e);
+      }}
+      onError={(e) => {
+        if (src === candidates[index]) {
+          // Moves on right away; only remembered as missing if a HEAD request gets a 4xx
+          confirmAssetMissing(src, projectId, kind);
+          setIndex(index + 1);
+        }
+        onError?.(e);
+      }}
+    />
+  );
+});
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  isIdle,
+  isSessionStorageKey,
+  login,
+  logout,
+  readSession,
+  recordActivity,
+  type AuthSession,
+} from '@/app/lib/auth';
+import { getRolePolicy, type RolePolicy } from '@/app/lib/roles';
+import { getBasePath } from '@/app/lib/utils';
+
+type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+interface AuthContextValue {
+  status: AuthStatus;
+  session: AuthSession | null;
+  signIn: (username: string, password: string, options?: { remember?: boolean }) => Promise<AuthSession | null>;
+  signOut: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// How often expiry and idle time are checked while a session is active
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+// Activity is written to localStorage at most this often
+const ACTIVITY_THROTTLE_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+
+  const refresh = useCallback(async () => {
+    const current = await readSession();
+    setSession(current);
+    setStatus(current ? 'authenticated' : 'unauthenticated');
+  }, []);
+
+  const signIn = useCallback<AuthContextValue['signIn']>(async (username, password, options) => {
+    const created = await login(username, password, options);
+    if (created) {
+      setSession(created);
+      setStatus('authenticated');
+    }
+    return created;
+  }, []);
+
+  const signOut = useCallback(() => {
+    logout();
+    setSession(null);
+    setStatus('unauthenticated');
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    // Logging in or out in another tab updates this one
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea === window.localStorage && isSessionStorageKey(event.key)) {
+        refresh();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastRecorded > ACTIVITY_THROTTLE_MS) {
+        lastRecorded = now;
+        recordActivity();
+      }
+    };
+
+    const checkSession = () => {
+      if (Date.now() >= session.expiresAt || isIdle(session)) {
+        signOut();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        checkSession();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((eventName) => window.addEventListener(eventName, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((eventName) => window.removeEventListener(eventName, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [session, signOut]);
+
+  const value = useMemo(() => ({ status, session, signIn, signOut }), [status, session, signIn, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+/**
+ * What the signed-in role may see and launch
+ */
+export function useRolePolicy(): RolePolicy {
+  const { session } = useAuth();
+  return useMemo(() => getRolePolicy(session?.role), [session?.role]);
+}
+
+/**
+ * Redirect to the login page whenever there is no valid session,
+ * including when it expires, idles out or is ended in another tab
+ */
+export function useAuthGuard(): AuthContextValue {
+  const auth = useAuth();
+
+  useEffect(() => {
+    if (auth.status === 'unauthenticated') {
+      window.location.replace(getBasePath() + '/login');
+    }
+  }, [auth.status]);
+
+  return auth;
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { getClient, loadClientManifest, selectClientImage, type ClientManifest } from '@/app/lib/clients';
+import { getBasePath } from '@/app/lib/utils';
+
+const SIZES = {
+  xs: 'h-4 w-4 text-[8px]',
+  sm: 'h-6 w-6 text-[10px]',
+  lg: 'h-16 w-16 text-xl',
+};
+
+/**
+ * clients-manifest.json, loaded once and shared by every logo on the page
+ */
+export function useClientManifest(): ClientManifest | null {
+  const [manifest, setManifest] = useState<ClientManifest | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClientManifest(getBasePath()).then((loaded) => {
+      if (!cancelled) setManifest(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return manifest;
+}
+
+interface ClientLogoProps {
+  name: string; // Client name or alias as used in metadata.json
+  size?: keyof typeof SIZES;
+  className?: string;
+}
+
+/**
+ * Logo, downloaded favicon or initials of a client
+ */
+export function ClientLogo({ name, size = 'sm', className = '' }: ClientLogoProps) {
+  const manifest = useClientManifest();
+  const [failed, setFailed] = useState(false);
+  const client = getClient(name);
+  const src = failed ? null : selectClientImage(client, manifest, getBasePath());
+
+  if (src) {
+    return (
+      <img
+        src={src}
+        alt=""
+        className={`${SIZES[size]} shrink-0 rounded object-contain bg-white ${className}`}
+        onError={() => setFailed(true)}
+      />
+    );
+  }
+
+  const initials = client.name
+    .split(/\s+/)
+    .filter((word) => !/^(as|asa)$/i.test(word))
+    .slice(0, 2)
+    .map((word) => word[0]?.toUpperCase())
+    .join('');
+
+  return (
+    <span
+      aria-hidden="true"
+      className={`${SIZES[size]} shrink-0 inline-flex items-center justify-center rounded bg-[#8027F4]/30 text-white font-semibold ${className}`}
+    >
+      {initials}
+    </span>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, ListPlus, Plus, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/app/components/auth-provider';
+import {
+  COLLECTIONS_CHANGE_EVENT,
+  collectionsStorageKey,
+  createCollection,
+  readCollections,
+  toggleFavorite,
+  toggleInCollection,
+  writeCollections,
+  type SavedCollections,
+} from '@/app/lib/collections';
+
+export type UpdateCollections = (update: (saved: SavedCollections) => SavedCollections) => void;
+
+/**
+ * Favorites and collections of the signed-in user, kept in sync across tabs and components
+ */
+export function useCollections(): [SavedCollections, UpdateCollections] {
+  const { session } = useAuth();
+  const userId = session?.id ?? null;
+  const [saved, setSaved] = useState<SavedCollections>(() => readCollections(userId));
+
+  useEffect(() => {
+    setSaved(readCollections(userId));
+    if (!userId) return;
+
+    const refresh = () => setSaved(readCollections(userId));
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === collectionsStorageKey(userId)) refresh();
+    };
+
+    window.addEventListener(COLLECTIONS_CHANGE_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(COLLECTIONS_CHANGE_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [userId]);
+
+  const update = useCallback<UpdateCollections>((change) => {
+    if (!userId) return;
+    // Start from storage so changes made by other cards in the meantime are kept
+    writeCollections(userId, change(readCollections(userId)));
+  }, [userId]);
+
+  return [saved, update];
+}
+
+/**
+ * Star toggle and "add to collection" menu for one instance
+ */
+export function CollectionControls({ instanceId }: { instanceId: string }) {
+  const [saved, update] = useCollections();
+  const [newName, setNewName] = useState('');
+  const favorite = saved.favorites.includes(instanceId);
+  const collected = saved.collections.some((collection) => collection.instanceIds.includes(instanceId));
+
+  const addToNewCollection = () => {
+    if (!newName.trim()) return;
+    update((current) => createCollection(current, newName, [instanceId]));
+    setNewName('');
+  };
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        aria-pressed={favorite}
+        title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+        onClick={() => update((current) => toggleFavorite(current, instanceId))}
+      >
+        <Star className={`h-4 w-4 ${favorite ? 'fill-yellow-400 text-yellow-400' : 'text-white/60'}`} />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Add to collection">
+            <ListPlus className={`h-4 w-4 ${collected ? 'text-[#8027F4]' : 'text-white/60'}`} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-2">
+          <div className="px-2 py-1 text-xs font-medium text-muted-foreground">Collections</div>
+          {saved.collections.map((collection) => {
+            const included = collection.instanceIds.includes(instanceId);
+            return (
+              <button
+                key={collection.id}
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm text-left hover:bg-white/5"
+                onClick={() => update((current) => toggleInCollection(current, collection.id, instanceId))}
+              >
+                <Check className={`h-4 w-4 shrink-0 ${included ? 'opacity-100' : 'opacity-0'}`} />
+                <span className="truncate">{collection.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{collection.instanceIds.length}</span>
+              </button>
+            );
+          })}
+          <form
+            className="flex items-center gap-1 mt-2 border-t border-white/10 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addToNewCollection();
+            }}
+          >
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection..."
+              className="h-8"
+            />
+            <Button type="submit" variant="ghost" size="sm" className="h-8 w-8 p-0 shrink-0" title="Create collection" disabled={!newName.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Columns3, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  COMPARE_CHANGE_EVENT,
+  MAX_COMPARE,
+  MIN_COMPARE,
+  compareToSearchParams,
+  isCompareStorageKey,
+  readCompareTray,
+  toggleCompare,
+  writeCompareTray,
+} from '@/app/lib/compare';
+import type { CatalogInstance } from '@/app/lib/types';
+
+/**
+ * Instance ids in the compare tray, kept in sync across tabs and components
+ */
+export function useCompareTray(): [string[], (ids: string[]) => void] {
+  const [ids, setIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setIds(readCompareTray());
+    const refresh = () => setIds(readCompareTray());
+    const handleStorage = (event: StorageEvent) => {
+      if (isCompareStorageKey(event.key)) refresh();
+    };
+
+    window.addEventListener(COMPARE_CHANGE_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(COMPARE_CHANGE_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const update = useCallback((next: string[]) => writeCompareTray(next), []);
+
+  return [ids, update];
+}
+
+/**
+ * Card button that adds an instance to the compare tray or takes it out
+ */
+export function CompareToggle({ instanceId }: { instanceId: string }) {
+  const [ids, update] = useCompareTray();
+  const selected = ids.includes(instanceId);
+  const full = !selected && ids.length >= MAX_COMPARE;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-8 w-8 p-0"
+      aria-pressed={selected}
+      disabled={full}
+      title={selected ? 'Remove from comparison' : full ? `Compare up to ${MAX_COMPARE} instances` : 'Add to comparison'}
+      onClick={() => update(toggleCompare(readCompareTray(), instanceId))}
+    >
+      <Columns3 className={`h-4 w-4 ${selected ? 'text-[#8027F4]' : 'text-white/60'}`} />
+    </Button>
+  );
+}
+
+/**
+ * Bar pinned to the bottom of the grid while the tray holds anything
+ */
+export function CompareTray({ instances }: { instances: CatalogInstance[] }) {
+  const [ids, update] = useCompareTray();
+  if (ids.length === 0) return null;
+
+  const byId = new Map(instances.map((instance) => [instance.id, instance]));
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4 pointer-events-none">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-[#8027F4]/40 bg-background/95 px-4 py-3 shadow-lg backdrop-blur pointer-events-auto">
+        <Columns3 className="h-4 w-4 text-[#8027F4]" />
+        <span className="text-sm text-muted-foreground mr-2">Compare</span>
+        {ids.map((id) => (
+          <span key={id} className="inline-flex items-center gap-1 rounded-full bg-white/10 pl-3 pr-1 py-0.5 text-sm max-w-[200px]">
+            <span className="truncate">{byId.get(id)?.name ?? id}</span>
+            <button
+              type="button"
+              className="rounded-full p-0.5 text-white/60 hover:text-white hover:bg-white/10"
+              title="Remove from comparison"
+              onClick={() => update(ids.filter((candidate) => candidate !== id))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {ids.length < MIN_COMPARE && (
+          <span className="text-xs text-muted-foreground">Add {MIN_COMPARE - ids.length} more to compare</span>
+        )}
+        <Button
+          asChild={ids.length >= MIN_COMPARE}
+          size="sm"
+          className="ml-2 bg-[#8027F4] hover:bg-[#6c1fd1] text-white"
+          disabled={ids.length < MIN_COMPARE}
+        >
+          {ids.length >= MIN_COMPARE ? (
+            <Link href={`/instances/compare?${compareToSearchParams(ids)}`}>Compare {ids.length}</Link>
+          ) : (
+            <span>Compare</span>
+          )}
+        </Button>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => update([])}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Camera,
+  Compass,
+  Eye,
+  Image as ImageIcon,
+  Info,
+  Layers,
+  LayoutDashboard,
+  Lock,
+  Map as MapIcon,
+  MapPin,
+  Palette,
+  Ruler,
+  ScanLine,
+  Sparkles,
+  Sun,
+  Video,
+  type LucideIcon,
+} from 'lucide-react';
+import type { ExploreInstanceType } from '@/app/lib/types';
+import { getFeatureDefinition } from '@/app/lib/features';
+
+// features.config.json names Tabler icons; these are their closest lucide equivalents
+const ICONS: Record<string, LucideIcon> = {
+  IconAugmentedReality: ScanLine,
+  IconBox: Box,
+  IconCamera: Camera,
+  IconCompass: Compass,
+  IconEye: Eye,
+  IconInfoCircle: Info,
+  IconLayersIntersect: Layers,
+  IconLayoutDashboard: LayoutDashboard,
+  IconMap: MapIcon,
+  IconMapPin: MapPin,
+  IconPalette: Palette,
+  IconPhoto: ImageIcon,
+  IconRuler: Ruler,
+  IconSparkles: Sparkles,
+  IconSun: Sun,
+  IconVideo: Video,
+};
+
+interface FeatureChipProps {
+  name: string;
+  type?: ExploreInstanceType; // Picks the type-specific definition when a feature is configured for both
+  locked?: boolean; // Behind login
+  size?: 'sm' | 'md';
+  title?: string;
+}
+
+export function FeatureChip({ name, type, locked = false, size = 'md', title }: FeatureChipProps) {
+  const feature = getFeatureDefinition(name, type);
+  const Icon = locked ? Lock : feature.icon ? ICONS[feature.icon] : undefined;
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full font-medium whitespace-nowrap ${
+        size === 'sm' ? 'px-2 py-0.5 text-xs gap-1' : 'px-2.5 py-1 text-sm gap-1.5'
+      } ${locked ? 'opacity-60' : ''}`}
+      style={{ backgroundColor: feature.color, color: feature.textColor ?? 'white' }}
+      title={title ?? feature.description}
+    >
+      {Icon && <Icon className={size === 'sm' ? 'h-3 w-3' : 'h-3.5 w-3.5'} />}
+      {name}
+    </span>
+  );
+}
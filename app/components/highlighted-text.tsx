@@ -0,0 +1,32 @@
+'use client';
+
+import React from 'react';
+import { tokenize } from '@/app/lib/search';
+
+/**
+ * Render text with the words matched by a search wrapped in <mark>.
+ * `tokens` are folded search tokens, so "Hansefellåsen" is marked for "hansefellasen".
+ */
+export function HighlightedText({ text, tokens }: { text: string; tokens?: Set<string> }) {
+  if (!tokens || tokens.size === 0) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(/([^\s\-_.,/()]+)/);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const words = tokenize(part);
+        if (words.length > 0 && words.some((word) => tokens.has(word))) {
+          return (
+            <mark key={index} className="bg-[#8027F4]/40 text-inherit rounded-sm px-0.5">
+              {part}
+            </mark>
+          );
+        }
+        return <React.Fragment key={index}>{part}</React.Fragment>;
+      })}
+    </>
+  );
+}
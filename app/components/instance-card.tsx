@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Play, Lock, HardDrive } from 'lucide-react';
+import type { CatalogInstance } from '@/app/lib/types';
+import { canLaunchInstance, type RolePolicy } from '@/app/lib/roles';
+import type { SearchHit } from '@/app/lib/search';
+import { HighlightedText } from '@/app/components/highlighted-text';
+import { OverviewAnimation } from '@/app/components/overview-animation';
+import { AssetImage } from '@/app/components/asset-image';
+import type { ProjectAssets } from '@/app/lib/asset-manifest';
+import type { RecentChange } from '@/app/lib/changelog';
+import { getUnitStats } from '@/app/lib/units';
+import { UnitAvailabilityBar } from '@/app/components/unit-availability';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { ClientLogo } from '@/app/components/client-logo';
+import { CollectionControls } from '@/app/components/collections';
+import { CompareToggle } from '@/app/components/compare-tray';
+import { useProjectLauncher } from '@/app/components/project-launcher';
+import { QrCodeButton } from '@/app/components/qr-code';
+import { getClient } from '@/app/lib/clients';
+
+// More features than this collapse into a "+n" chip
+const CARD_FEATURE_CHIPS = 4;
+
+// Cards play a short sampled loop rather than the full overview sequence
+const CARD_ANIMATION_FRAMES = 24;
+const CARD_ANIMATION_SECONDS = 6;
+
+// Card widths at the grid breakpoints (grid-cols-1 md:grid-cols-2 ... 2xl:grid-cols-5)
+const CARD_IMAGE_SIZES = '(min-width: 1536px) 20vw, (min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw';
+
+// Card Image Renderer - Simplified for Sales: only use preview images
+function CardImageRenderer({
+  instance,
+  basePath = '',
+  index,
+  assets,
+}: {
+  instance: CatalogInstance;
+  basePath?: string;
+  index: number;
+  assets?: ProjectAssets | null;
+}) {
+  const projectId = instance.uuid || instance.id;
+  const [loaded, setLoaded] = useState(false);
+
+  // Prefer the generated variants, then the preview, then instance.image, then a transparent placeholder
+  const previewImageSrc = `${basePath}/previews/${projectId}.webp`;
+  const imageSrc = instance.image 
+    ? (basePath && !instance.image.startsWith(basePath) 
+        ? `${basePath}${instance.image}` 
+        : instance.image)
+    : null;
+  const variants = assets?.variants ?? [];
+  const defaultVariant = variants.find((variant) => variant.name === 'card') ?? variants[0];
+  const srcSet = variants.map((variant) => `${basePath}${variant.src} ${variant.width}w`).join(', ');
+
+  const transparentPlaceholder = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgZmlsbD0idHJhbnNwYXJlbnQiLz48L3N2Zz4=';
+
+  return (
+    <div
+      className="absolute inset-0 overflow-hidden"
+      style={{ backgroundColor: assets?.color ?? 'rgba(255, 255, 255, 0.02)' }}
+    >
+      {assets?.placeholder && !loaded && (
+        // Blown-up 16px preview; scaled past the edges so the blur doesn't fade out at the border
+        <img
+          src={assets.placeholder}
+          alt=""
+          aria-hidden
+          className="absolute inset-0 w-full h-full object-cover scale-110 blur-lg"
+        />
+      )}
+      <AssetImage
+        projectId={projectId}
+        sources={[defaultVariant ? `${basePath}${defaultVariant.src}` : null, previewImageSrc, imageSrc]}
+        srcSet={srcSet || undefined}
+        sizes={srcSet ? CARD_IMAGE_SIZES : undefined}
+        kind="preview"
+        fallbackSrc={transparentPlaceholder}
+        alt={instance.name}
+        width={defaultVariant?.width}
+        height={defaultVariant?.height}
+        className="absolute inset-0 w-full h-full object-cover transition-opacity duration-300"
+        style={{ opacity: loaded ? 1 : 0 }}
+        loading={index < 3 ? 'eager' : 'lazy'}
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+      />
+    </div>
+  );
+}
+
+interface InstanceCardProps {
+  instance: CatalogInstance;
+  basePath: string;
+  index: number; // Position in the grid, the first cards load eagerly
+  rolePolicy: RolePolicy;
+  searchHit?: SearchHit; // Present while a search query is active
+  hoverAnimation?: boolean; // Play the overview animation on hover or keyboard focus
+  availableOffline?: boolean; // Every asset of the project is pinned for offline use
+  assets?: ProjectAssets | null; // Generated variants and placeholder from assets-manifest.json
+  recentChange?: RecentChange; // Added or changed in a recent data release
+}
+
+export function InstanceCard({
+  instance,
+  basePath,
+  index,
+  rolePolicy,
+  searchHit,
+  hoverAnimation = false,
+  availableOffline = false,
+  assets,
+  recentChange,
+}: InstanceCardProps) {
+  const imageLinkRef = useRef<HTMLAnchorElement>(null);
+  const [inView, setInView] = useState(false);
+  const [active, setActive] = useState(false);
+  const [animationReady, setAnimationReady] = useState(false);
+  const launcher = useProjectLauncher();
+  const unitStats = instance.type === 'Unit Finder' ? getUnitStats(instance) : null;
+
+  // Frames are only fetched while the card is actually on screen
+  useEffect(() => {
+    const element = imageLinkRef.current;
+    if (!hoverAnimation || !element) return;
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hoverAnimation]);
+
+  return (
+    <Card
+      className="overflow-hidden hover:shadow-lg transition-shadow"
+      style={{ backgroundColor: 'transparent' }}
+      onMouseEnter={() => setActive(true)}
+      onMouseLeave={() => setActive(false)}
+      onFocus={() => setActive(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setActive(false);
+      }}
+    >
+      <Link
+        ref={imageLinkRef}
+        href={`/instances/${instance.id}`}
+        className="block aspect-video relative overflow-hidden"
+        style={{ backgroundColor: 'transparent' }}
+      >
+        <CardImageRenderer instance={instance} basePath={basePath} index={index} assets={assets} />
+        {hoverAnimation && instance.uuid && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={{ opacity: active && animationReady ? 1 : 0, transition: 'opacity 0.2s ease-in-out' }}
+          >
+            <OverviewAnimation
+              projectId={instance.uuid}
+              basePath={basePath}
+              totalDuration={CARD_ANIMATION_SECONDS}
+              maxFrames={CARD_ANIMATION_FRAMES}
+              active={active}
+              enabled={inView}
+              onAvailable={() => setAnimationReady(true)}
+            />
+          </div>
+        )}
+      </Link>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          {instance.client && (
+            <CardDescription className="mb-0 min-w-0">
+              <Link
+                href={`/clients/${getClient(instance.client).slug}`}
+                className="inline-flex items-center gap-1.5 hover:text-foreground"
+              >
+                <ClientLogo name={instance.client} size="xs" />
+                <HighlightedText text={instance.client} tokens={searchHit?.matches.client} />
+              </Link>
+            </CardDescription>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            {availableOffline && (
+              <span title="Available offline" className="text-emerald-400">
+                <HardDrive className="h-4 w-4" />
+              </span>
+            )}
+            {recentChange && (
+              <Badge
+                variant="outline"
+                className="bg-[#8027F4]/20 text-white border-[#8027F4]/40"
+                title={`${recentChange.kind === 'new' ? 'Added' : 'Updated'} ${new Date(recentChange.date).toLocaleDateString()}`}
+              >
+                {recentChange.kind === 'new' ? 'New' : 'Updated'}
+              </Badge>
+            )}
+            {instance.type && (
+              <Badge variant="secondary">
+                {instance.type}
+              </Badge>
+            )}
+            {instance.isShowcase && (
+              <Badge variant="default" className="bg-purple-600 hover:bg-purple-700">
+                Showcase
+              </Badge>
+            )}
+            {instance.hidden && (
+              <Badge variant="outline" className="text-white/60 border-white/20">
+                Hidden
+              </Badge>
+            )}
+            {instance.status && (
+              <Badge 
+                variant="outline"
+                className={
+                  instance.status === 'Public'
+                    ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                    : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+                }
+              >
+                {instance.status === 'Private' && <Lock className="h-3 w-3 mr-1" />}
+                {instance.status}
+              </Badge>
+            )}
+          </div>
+        </div>
+        <CardTitle className="text-lg truncate mb-2" style={{ maxWidth: '100%' }}>
+          <Link href={`/instances/${instance.id}`} className="hover:underline">
+            <HighlightedText text={instance.name} tokens={searchHit?.matches.name} />
+          </Link>
+        </CardTitle>
+        {searchHit && searchHit.matchedFeatures.length > 0 && (
+          <p className="text-xs text-muted-foreground mb-2 truncate">
+            Matches:{' '}
+            {searchHit.matchedFeatures.map((feature, featureIndex) => (
+              <React.Fragment key={feature}>
+                {featureIndex > 0 && ', '}
+                <HighlightedText text={feature} tokens={searchHit.matches.features} />
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+        {instance.features.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {instance.features.slice(0, CARD_FEATURE_CHIPS).map((feature) => (
+              <FeatureChip key={feature} name={feature} type={instance.type} size="sm" />
+            ))}
+            {instance.features.length > CARD_FEATURE_CHIPS && (
+              <span
+                className="inline-flex items-center rounded-full px-2 py-0.5 text-xs text-white/60 bg-white/10"
+                title={instance.features.slice(CARD_FEATURE_CHIPS).join(', ')}
+              >
+                +{instance.features.length - CARD_FEATURE_CHIPS}
+              </span>
+            )}
+          </div>
+        )}
+        {unitStats && <UnitAvailabilityBar stats={unitStats} compact className="mb-3" />}
+        <div className="flex items-center gap-2">
+          {canLaunchInstance(instance, rolePolicy) ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                launcher.launch(instance);
+              }}
+              title="Open project"
+            >
+              <Play className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              disabled
+              title={instance.link ? 'Private project - launching is not available for your role' : 'No link available'}
+            >
+              <Lock className="h-4 w-4" />
+            </Button>
+          )}
+          <div className="ml-auto flex items-center">
+            {canLaunchInstance(instance, rolePolicy) && <QrCodeButton instance={instance} />}
+            <CompareToggle instanceId={instance.id} />
+            <CollectionControls instanceId={instance.id} />
+          </div>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
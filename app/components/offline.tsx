@@ -0,0 +1,108 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CatalogInstance } from '@/app/lib/types';
+import {
+  OFFLINE_CHANGE_EVENT,
+  isOfflineStorageKey,
+  isOfflineSupported,
+  pinProject,
+  readPinnedProjects,
+  unpinProject,
+  verifyPinnedProjects,
+  type PinProgress,
+  type PinnedProject,
+} from '@/app/lib/offline';
+import { getBasePath } from '@/app/lib/utils';
+
+/**
+ * Registers the offline service worker. Skipped in development, where it
+ * would serve stale chunks over hot reloads. The build id in the script URL
+ * makes each deploy install a new worker with its own caches.
+ */
+export function OfflineSupport() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !isOfflineSupported()) return;
+    const basePath = getBasePath();
+    navigator.serviceWorker
+      .register(`${basePath}/sw.js?build=${process.env.NEXT_PUBLIC_BUILD_ID}`, { scope: `${basePath}/` })
+      .catch((error) => console.error('[Offline] Service worker registration failed:', error));
+  }, []);
+
+  return null;
+}
+
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
+
+interface OfflineProjects {
+  supported: boolean;
+  pinned: Record<string, PinnedProject>;
+  progress: Record<string, PinProgress>; // Downloads in progress, by instance id
+  pin: (instance: CatalogInstance) => Promise<void>;
+  unpin: (id: string) => Promise<void>;
+}
+
+/**
+ * Pinned projects, kept in sync across tabs and re-verified against the cache on mount
+ */
+export function useOfflineProjects(): OfflineProjects {
+  const [supported, setSupported] = useState(false);
+  const [pinned, setPinned] = useState<Record<string, PinnedProject>>({});
+  const [progress, setProgress] = useState<Record<string, PinProgress>>({});
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    setSupported(true);
+    setPinned(readPinnedProjects());
+    verifyPinnedProjects().then(setPinned).catch(() => {});
+
+    const refresh = () => setPinned(readPinnedProjects());
+    const handleStorage = (event: StorageEvent) => {
+      if (isOfflineStorageKey(event.key)) refresh();
+    };
+
+    window.addEventListener(OFFLINE_CHANGE_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(OFFLINE_CHANGE_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const pin = useCallback(async (instance: CatalogInstance) => {
+    try {
+      await pinProject(instance, getBasePath(), (current) => {
+        setProgress((all) => ({ ...all, [instance.id]: current }));
+      });
+    } catch (error) {
+      console.error('[Offline] Failed to make project available offline:', error);
+    } finally {
+      setProgress(({ [instance.id]: _finished, ...rest }) => rest);
+    }
+  }, []);
+
+  const unpin = useCallback(async (id: string) => {
+    try {
+      await unpinProject(id);
+    } catch (error) {
+      console.error('[Offline] Failed to remove offline project:', error);
+    }
+  }, []);
+
+  return { supported, pinned, progress, pin, unpin };
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useEffect, useState, useRef } from 'react';
+import { AssetImage } from '@/app/components/asset-image';
+import { cdnAssetUrl, fetchAssetJson, loadAssetImage, resolveAssetUrl } from '@/app/lib/assets';
+
+// Entry of projects/<id>/overview-images.json
+interface OverviewIndexEntry {
+  url?: string;
+  texture: string;
+  fileName?: string;
+  index: number;
+}
+
+interface OverviewFrame {
+  local: string;
+  cdn: string;
+  fileName: string;
+}
+
+interface OverviewAnimationProps {
+  projectId: string;
+  basePath?: string;
+  totalDuration?: number;
+  active?: boolean; // Controls playback from outside; when omitted the component plays on its own hover
+  enabled?: boolean; // Nothing is fetched while false, e.g. for cards outside the viewport
+  maxFrames?: number; // Evenly sample at most this many frames
+  onAvailable?: () => void; // Called once there is something to play
+}
+
+function sampleFrames(frames: OverviewFrame[], maxFrames?: number): OverviewFrame[] {
+  if (!maxFrames || frames.length <= maxFrames) return frames;
+  const step = frames.length / maxFrames;
+  return Array.from({ length: maxFrames }, (_, i) => frames[Math.floor(i * step)]);
+}
+
+// Overview Animation Component for Unit Finder
+export function OverviewAnimation({
+  projectId,
+  basePath = '',
+  totalDuration = 720,
+  active,
+  enabled = true,
+  maxFrames,
+  onAvailable,
+}: OverviewAnimationProps) {
+  const [imageData, setImageData] = useState<OverviewFrame[]>([]);
+  const [imagesLoaded, setImagesLoaded] = useState(false);
+  const [allPreloaded, setAllPreloaded] = useState(false);
+  const [isHovered, setIsHovered] = useState(false);
+  const [playRequested, setPlayRequested] = useState(false);
+  const [hasWebPAnimation, setHasWebPAnimation] = useState(false);
+  const [firstImage, setFirstImage] = useState<string | null>(null);
+  const isHoveredRef = useRef(false);
+  const imageElementRef = useRef<HTMLImageElement>(null);
+  const preloadedImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onAvailableRef = useRef(onAvailable);
+  onAvailableRef.current = onAvailable;
+  const playing = active ?? isHovered;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const loadImages = async () => {
+      const webpUrl = `${basePath}/previews/${projectId}.webp`;
+      resolveAssetUrl(projectId, [webpUrl], 'preview', { timeoutMs: 800 })
+        .then(url => {
+          if (!cancelled) setHasWebPAnimation(url !== null);
+        });
+
+      const jsonUrl = `${basePath}/projects/${projectId}/overview-images.json`;
+      const data = await fetchAssetJson<OverviewIndexEntry[]>(projectId, [jsonUrl], 'overview-index');
+      if (cancelled) return;
+      setImagesLoaded(true);
+      if (!Array.isArray(data)) return;
+
+      const sortedData = [...data].sort((a, b) => a.index - b.index);
+      setImageData(sortedData.map((item) => {
+        const fileName = item.fileName || `${item.texture}_LOD3.webp`;
+        return {
+          local: `${basePath}/projects/${projectId}/overview/${fileName}`,
+          cdn: item.url || cdnAssetUrl(projectId, fileName),
+          fileName,
+        };
+      }));
+    };
+
+    loadImages();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, basePath, enabled]);
+
+  useEffect(() => {
+    if (hasWebPAnimation || (allPreloaded && preloadedImagesRef.current.size > 0)) {
+      onAvailableRef.current?.();
+    }
+  }, [hasWebPAnimation, allPreloaded]);
+
+  useEffect(() => {
+    if (playing) setPlayRequested(true);
+  }, [playing]);
+
+  // Frames are only fetched once playback is first asked for (hover or focus), and not
+  // at all when the webp preview plays instead
+  useEffect(() => {
+    if (!enabled || !playRequested || hasWebPAnimation || !imagesLoaded || imageData.length === 0 || allPreloaded) return;
+
+    const controller = new AbortController();
+    const frames = sampleFrames(imageData, maxFrames);
+
+    const preloadFrames = async () => {
+      const results = await Promise.all(frames.map((item) =>
+        loadAssetImage(projectId, [item.local, item.cdn], 'overview-frame', { signal: controller.signal })
+      ));
+
+      if (controller.signal.aborted) return;
+      // Insert in frame order so playback order doesn't depend on which request finished first
+      results.forEach((result) => {
+        if (result) preloadedImagesRef.current.set(result.url, result.image);
+      });
+      setFirstImage(preloadedImagesRef.current.keys().next().value ?? null);
+      setAllPreloaded(true);
+    };
+
+    preloadFrames();
+
+    return () => controller.abort();
+  }, [projectId, imageData, imagesLoaded, enabled, playRequested, hasWebPAnimation, maxFrames, allPreloaded]);
+
+  useEffect(() => {
+    isHoveredRef.current = playing;
+  }, [playing]);
+
+  useEffect(() => {
+    if (hasWebPAnimation || !allPreloaded) return;
+
+    if (!playing) {
+      const img = imageElementRef.current;
+      if (img && firstImage) {
+        img.src = firstImage;
+      }
+      return;
+    }
+
+    const verifiedImages = Array.from(preloadedImagesRef.current.keys());
+    
+    if (verifiedImages.length === 0) {
+      return;
+    }
+
+    const intervalTime = (totalDuration * 1000) / verifiedImages.length;
+    let frameIndex = 0;
+    const startTime = performance.now();
+    let animationId: number;
+    
+    const animate = (currentTime: number) => {
+      if (!isHoveredRef.current) {
+        return;
+      }
+      
+      const elapsed = currentTime - startTime;
+      const newFrameIndex = Math.floor((elapsed / intervalTime) % verifiedImages.length);
+      
+      if (newFrameIndex !== frameIndex) {
+        frameIndex = newFrameIndex;
+        const img = imageElementRef.current;
+        if (img && verifiedImages[frameIndex]) {
+          const preloaded = preloadedImagesRef.current.get(verifiedImages[frameIndex]);
+          if (preloaded && preloaded.complete && preloaded.naturalWidth > 0) {
+            img.src = verifiedImages[frameIndex];
+          }
+        }
+      }
+      
+      animationId = requestAnimationFrame(animate);
+    };
+    
+    animationId = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationId) {
+        cancelAnimationFrame(animationId);
+      }
+    };
+  }, [allPreloaded, totalDuration, playing, hasWebPAnimation, firstImage]);
+
+  const initialFrame = imageData[0];
+  const webpUrl = hasWebPAnimation ? `${basePath}/previews/${projectId}.webp` : null;
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      className="w-full h-full relative overflow-hidden"
+      style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }}
+    >
+      {initialFrame && (
+        <AssetImage
+          ref={imageElementRef}
+          projectId={projectId}
+          sources={firstImage ? [firstImage] : [initialFrame.local, initialFrame.cdn]}
+          kind="overview-frame"
+          alt="Overview"
+          className="w-full h-full object-cover absolute inset-0"
+          style={{
+            backgroundColor: 'rgba(255, 255, 255, 0.02)',
+            imageRendering: 'auto',
+            backfaceVisibility: 'hidden',
+            transform: 'translateZ(0)',
+            willChange: 'contents',
+            WebkitBackfaceVisibility: 'hidden',
+            WebkitTransform: 'translateZ(0)',
+            opacity: playing && webpUrl ? 0 : 1,
+            transition: 'opacity 0.15s ease-in-out',
+            pointerEvents: 'none',
+          }}
+          loading="eager"
+          decoding="async"
+        />
+      )}
+      {webpUrl && (
+        <img
+          src={webpUrl}
+          alt="Overview Animation"
+          className="w-full h-full object-cover absolute inset-0"
+          style={{
+            backgroundColor: 'rgba(255, 255, 255, 0.02)',
+            imageRendering: 'auto',
+            backfaceVisibility: 'hidden',
+            transform: 'translateZ(0)',
+            willChange: 'auto',
+            WebkitBackfaceVisibility: 'hidden',
+            WebkitTransform: 'translateZ(0)',
+            opacity: playing ? 1 : 0,
+            transition: 'opacity 0.2s ease-in-out',
+            pointerEvents: 'none',
+          }}
+          loading="eager"
+          decoding="async"
+        />
+      )}
+      {!initialFrame && (
+        <div className="w-full h-full" style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }} />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { webglContextManager } from '@/app/lib/webgl-context-manager';
+import { loadAssetImage } from '@/app/lib/assets';
 
 // Dynamically import Photo Sphere Viewer to avoid SSR issues
 let Viewer: any = null;
@@ -298,36 +299,15 @@ export function PanoramaViewer({
 
       // Check if image URL is accessible before initializing viewer
       try {
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-
-        const imageLoadPromise = new Promise<boolean>((resolve) => {
-          const timeout = setTimeout(() => {
-            console.error('[PanoramaViewer] Image validation timeout after 15 seconds for URL:', absoluteUrl);
-            resolve(false);
-          }, 15000);
-
-          img.onload = () => {
-            clearTimeout(timeout);
-            resolve(true);
-          };
-
-          img.onerror = (error) => {
-            clearTimeout(timeout);
-            console.error('[PanoramaViewer] Image validation failed - image cannot be loaded:', {
-              url: absoluteUrl,
-              originalUrl: imgSrc,
-              error: error,
-            });
-            resolve(false);
-          };
-
-          img.src = absoluteUrl;
+        const loaded = await loadAssetImage(null, [absoluteUrl], 'panorama', {
+          timeoutMs: 15000,
+          crossOrigin: 'anonymous',
         });
-
-        const imageValid = await imageLoadPromise;
-        if (!imageValid) {
-          console.error('[PanoramaViewer] Image validation failed, aborting viewer initialization');
+        if (!loaded) {
+          console.error('[PanoramaViewer] Image validation failed, aborting viewer initialization:', {
+            url: absoluteUrl,
+            originalUrl: imgSrc,
+          });
           setLoadError(true);
           if (onLoadError) {
             onLoadError();
@@ -712,7 +692,8 @@ export function PanoramaViewer({
 
             addListener.call(viewer, 'position-updated', (event: any) => {
               if (!isMounted) return;
-              isPanoramaRotatingRef.current = true; // User is actively rotating
+              // Not marked as rotating here: external updates and auto-rotation fire this too, and would
+              // block every later externalYaw/externalPitch update. The pointer listeners below track the user.
               try {
                 // Get current position from viewer
                 const position = viewer.getPosition();
@@ -1046,6 +1027,29 @@ export function PanoramaViewer({
     };
   }, [imageSrc, isVisible, initialPitch, initialYaw]); // Depend on key props that affect viewer initialization
 
+  // Track the user dragging the panorama, so external rotation doesn't fight them.
+  // Photo Sphere Viewer 4.8 emits no interaction-start/end, so watch the pointer instead.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handlePointerDown = () => {
+      isPanoramaRotatingRef.current = true;
+    };
+    // The drag can end outside the container
+    const handlePointerUp = () => {
+      isPanoramaRotatingRef.current = false;
+    };
+    container.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      container.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      isPanoramaRotatingRef.current = false;
+    };
+  }, [isVisible]); // The container element is swapped once the viewer becomes visible
+
   // Handle disableInteraction prop - disable pointer events when interaction is disabled
   useEffect(() => {
     if (containerRef.current) {
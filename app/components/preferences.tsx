@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/app/components/auth-provider';
+import {
+  preferencesStorageKey,
+  readPreferences,
+  writePreferences,
+  type UserPreferences,
+} from '@/app/lib/preferences';
+
+/**
+ * Preferences of the signed-in user, kept in sync across tabs
+ */
+export function usePreferences(): [UserPreferences, (changes: Partial<UserPreferences>) => void] {
+  const { session } = useAuth();
+  const userId = session?.id ?? null;
+  const [preferences, setPreferences] = useState<UserPreferences>(() => readPreferences(userId));
+
+  useEffect(() => {
+    setPreferences(readPreferences(userId));
+    if (!userId) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === preferencesStorageKey(userId)) {
+        setPreferences(readPreferences(userId));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId]);
+
+  const updatePreferences = useCallback((changes: Partial<UserPreferences>) => {
+    setPreferences((current) => {
+      const next = { ...current, ...changes };
+      if (userId) writePreferences(userId, next);
+      return next;
+    });
+  }, [userId]);
+
+  return [preferences, updatePreferences];
+}
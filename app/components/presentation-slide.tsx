@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Lock, Play, Rotate3d } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AssetImage } from '@/app/components/asset-image';
+import { ClientLogo } from '@/app/components/client-logo';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { OverviewAnimation } from '@/app/components/overview-animation';
+import { PanoramaViewer } from '@/app/components/panorama-viewer';
+import { useProjectLauncher } from '@/app/components/project-launcher';
+import { selectPanoramaSrc, type ProjectAssets } from '@/app/lib/asset-manifest';
+import { canLaunchInstance, type RolePolicy } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+
+interface PresentationSlideProps {
+  instance: CatalogInstance;
+  basePath: string;
+  rolePolicy: RolePolicy;
+  assets?: ProjectAssets | null;
+  panorama?: boolean; // Show the 360° sample instead of the overview
+  onPanoramaUnavailable?: () => void;
+  compact?: boolean; // Thumbnail in the speaker notes: media only, no controls
+}
+
+/**
+ * Preview image with the overview animation playing on top
+ */
+export function SlideMedia({ instance, basePath, assets }: Pick<PresentationSlideProps, 'instance' | 'basePath' | 'assets'>) {
+  const [animationReady, setAnimationReady] = useState(false);
+  const projectId = instance.uuid || instance.id;
+  // Variants are sorted smallest first, the slide fills the screen
+  const variant = assets?.variants[assets.variants.length - 1];
+  const image = instance.image && basePath && !instance.image.startsWith(basePath) ? `${basePath}${instance.image}` : instance.image;
+
+  useEffect(() => setAnimationReady(false), [projectId]);
+
+  return (
+    <div className="absolute inset-0" style={{ backgroundColor: assets?.color ?? '#000' }}>
+      <AssetImage
+        projectId={projectId}
+        sources={[variant ? `${basePath}${variant.src}` : null, `${basePath}/previews/${projectId}.webp`, image]}
+        kind="preview"
+        alt={instance.name}
+        className="absolute inset-0 w-full h-full object-cover"
+        decoding="async"
+      />
+      <div
+        className="absolute inset-0"
+        style={{ opacity: animationReady ? 1 : 0, transition: 'opacity 0.4s ease-in-out' }}
+      >
+        <OverviewAnimation
+          key={projectId}
+          projectId={projectId}
+          basePath={basePath}
+          active
+          onAvailable={() => setAnimationReady(true)}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One project, full-screen: overview or panorama, client, features and launch button
+ */
+export function PresentationSlide({
+  instance,
+  basePath,
+  rolePolicy,
+  assets,
+  panorama = false,
+  onPanoramaUnavailable,
+  compact = false,
+}: PresentationSlideProps) {
+  const launcher = useProjectLauncher();
+  const panoramaSrc = selectPanoramaSrc(instance.uuid, basePath, assets);
+
+  if (compact) {
+    return (
+      <div className="relative w-full h-full overflow-hidden">
+        <SlideMedia instance={instance} basePath={basePath} assets={assets} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full overflow-hidden bg-black">
+      {panorama && panoramaSrc ? (
+        <PanoramaViewer
+          key={instance.id}
+          imageSrc={panoramaSrc}
+          fallbackSrc={`${basePath}/projects/${instance.uuid}/sample/sample.jpg`}
+          className="absolute inset-0 w-full h-full"
+          onLoadError={() => onPanoramaUnavailable?.()}
+        />
+      ) : (
+        <SlideMedia instance={instance} basePath={basePath} assets={assets} />
+      )}
+
+      <div className="absolute inset-x-0 bottom-0 pointer-events-none bg-gradient-to-t from-black/90 via-black/50 to-transparent pt-32 pb-24 px-12">
+        <div className="flex flex-wrap items-end justify-between gap-6 pointer-events-auto">
+          <div className="min-w-0 max-w-4xl">
+            {instance.client && (
+              <div className="flex items-center gap-3 mb-3 text-xl text-white/80">
+                <ClientLogo name={instance.client} size="sm" />
+                {instance.client}
+              </div>
+            )}
+            <h1 className="text-5xl font-bold text-white mb-4">{instance.name}</h1>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{instance.type}</Badge>
+              {instance.features.map((feature) => (
+                <FeatureChip key={feature} name={feature} type={instance.type} />
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {panorama && (
+              <span className="flex items-center text-sm text-white/60 mr-2">
+                <Rotate3d className="h-4 w-4 mr-2" />
+                Drag to look around
+              </span>
+            )}
+            {canLaunchInstance(instance, rolePolicy) ? (
+              <Button
+                size="lg"
+                className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white"
+                onClick={() => launcher.launch(instance)}
+              >
+                <Play className="h-5 w-5 mr-2" />
+                Open project
+              </Button>
+            ) : instance.link ? (
+              <Button size="lg" variant="outline" disabled title="Launching private projects is not available for your role">
+                <Lock className="h-5 w-5 mr-2" />
+                Private project
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
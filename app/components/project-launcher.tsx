@@ -0,0 +1,207 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, ArrowLeft, Check, ExternalLink, Link2, Loader2, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { recordActivity } from '@/app/lib/auth';
+import { LAUNCH_TIMEOUT_MS, canEmbed, loadLauncherManifest, markHostBlocked, openInNewTab, type LauncherManifest } from '@/app/lib/launcher';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+type FrameStatus = 'loading' | 'loaded' | 'failed';
+
+interface ProjectLauncherContextValue {
+  // Project shown in the overlay, null while closed
+  current: CatalogInstance | null;
+  launch: (instance: CatalogInstance) => void;
+  close: () => void;
+}
+
+const ProjectLauncherContext = createContext<ProjectLauncherContextValue | null>(null);
+
+// Marks the history entry pushed when the overlay opens, so the browser's Back button closes it
+const HISTORY_STATE_KEY = 'projectLauncher';
+
+function isLauncherHistoryEntry(): boolean {
+  return !!(window.history.state as Record<string, unknown> | null)?.[HISTORY_STATE_KEY];
+}
+
+export function ProjectLauncherProvider({ children }: { children: React.ReactNode }) {
+  const [current, setCurrent] = useState<CatalogInstance | null>(null);
+  // Read when launching, so launch stays stable and opens the new tab from the click itself
+  const manifestRef = useRef<LauncherManifest | null>(null);
+
+  useEffect(() => {
+    loadLauncherManifest(getBasePath()).then((manifest) => {
+      manifestRef.current = manifest;
+    });
+  }, []);
+
+  const launch = useCallback((instance: CatalogInstance) => {
+    if (!instance.link) return;
+    if (!canEmbed(instance.link, manifestRef.current)) {
+      openInNewTab(instance.link);
+      return;
+    }
+    // No URL change, so the page underneath keeps its own URL and state
+    if (!isLauncherHistoryEntry()) window.history.pushState({ [HISTORY_STATE_KEY]: instance.id }, '');
+    setCurrent(instance);
+  }, []);
+
+  const close = useCallback(() => {
+    if (isLauncherHistoryEntry()) {
+      window.history.back();
+    } else {
+      setCurrent(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      if (!isLauncherHistoryEntry()) setCurrent(null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const value = useMemo(() => ({ current, launch, close }), [current, launch, close]);
+
+  return (
+    <ProjectLauncherContext.Provider value={value}>
+      {children}
+      {current?.link && <LauncherOverlay key={current.id} instance={current} link={current.link} onClose={close} />}
+    </ProjectLauncherContext.Provider>
+  );
+}
+
+export function useProjectLauncher(): ProjectLauncherContextValue {
+  const context = useContext(ProjectLauncherContext);
+  if (!context) {
+    throw new Error('useProjectLauncher must be used within a ProjectLauncherProvider');
+  }
+  return context;
+}
+
+function LauncherOverlay({ instance, link, onClose }: { instance: CatalogInstance; link: string; onClose: () => void }) {
+  const [status, setStatus] = useState<FrameStatus>('loading');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // Catches slow or unreachable sites; a refused frame still fires load, see app/lib/launcher.ts
+  useEffect(() => {
+    if (status !== 'loading') return;
+    const timer = setTimeout(() => setStatus('failed'), LAUNCH_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [status, reloadKey]);
+
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    // Input inside the frame never reaches this window, so clicking into the project counts as activity
+    const handleBlur = () => {
+      if (document.activeElement === iframeRef.current) recordActivity();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [onClose]);
+
+  const reload = () => {
+    setStatus('loading');
+    setReloadKey((key) => key + 1);
+  };
+
+  const openExternally = () => {
+    openInNewTab(link);
+    onClose();
+  };
+
+  const reportBlocked = () => {
+    markHostBlocked(link);
+    openExternally();
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background" role="dialog" aria-modal="true" aria-label={instance.name}>
+      <div className="flex items-center gap-2 border-b border-white/10 px-4 py-2">
+        <Button variant="ghost" size="sm" className="text-muted-foreground" title="Back to the showcase (Esc)" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="min-w-0 flex-1 px-2">
+          <p className="font-medium truncate">{instance.name}</p>
+          {instance.client && <p className="text-xs text-muted-foreground truncate">{instance.client}</p>}
+        </div>
+        {status === 'loading' && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        {status === 'loaded' && (
+          <Button variant="ghost" size="sm" className="text-muted-foreground" title="Open in a new tab and always do so for this site" onClick={reportBlocked}>
+            Doesn&apos;t load?
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Reload" onClick={reload}>
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Open in new tab" onClick={openExternally}>
+          <ExternalLink className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={linkCopied ? 'Link copied' : 'Copy link'} onClick={copyLink}>
+          {linkCopied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {status === 'failed' ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 px-6 text-center">
+          <AlertCircle className="h-8 w-8 text-red-400" />
+          <div>
+            <p className="text-lg font-medium mb-1">This project can&apos;t be shown inside the showcase</p>
+            <p className="text-sm text-muted-foreground">It didn&apos;t load, or the site doesn&apos;t allow being embedded.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white" onClick={openExternally}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open in new tab
+            </Button>
+            <Button variant="outline" className="border-white/10 hover:bg-white/5 text-white/60" onClick={reload}>
+              Try again
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <iframe
+          key={reloadKey}
+          ref={iframeRef}
+          src={link}
+          title={instance.name}
+          className="w-full flex-1 border-0 bg-black"
+          allow="fullscreen; autoplay; clipboard-write; accelerometer; gyroscope; xr-spatial-tracking"
+          allowFullScreen
+          referrerPolicy="no-referrer-when-downgrade"
+          onLoad={() => setStatus('loaded')}
+          onError={() => setStatus('failed')}
+        />
+      )}
+    </div>
+  );
+}
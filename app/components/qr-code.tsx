@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, Download, Link2, QrCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DEFAULT_QR_SETTINGS,
+  QR_SETTINGS_CHANGE_EVENT,
+  buildQrLink,
+  encodeQr,
+  isQrSettingsStorageKey,
+  qrFileName,
+  qrToPngBlob,
+  qrToSvg,
+  qrTarget,
+  readQrSettings,
+  writeQrSettings,
+  type QrSettings,
+  type UtmParams,
+} from '@/app/lib/qr';
+import type { CatalogInstance } from '@/app/lib/types';
+
+/**
+ * QR settings (UTM parameters), kept in sync across tabs and components
+ */
+export function useQrSettings(): [QrSettings, (settings: QrSettings) => void] {
+  const [settings, setSettings] = useState<QrSettings>(DEFAULT_QR_SETTINGS);
+
+  useEffect(() => {
+    setSettings(readQrSettings());
+    const refresh = () => setSettings(readQrSettings());
+    const handleStorage = (event: StorageEvent) => {
+      if (isQrSettingsStorageKey(event.key)) refresh();
+    };
+
+    window.addEventListener(QR_SETTINGS_CHANGE_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(QR_SETTINGS_CHANGE_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const update = useCallback((next: QrSettings) => writeQrSettings(next), []);
+
+  return [settings, update];
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A QR code as an image, so it prints and scales like one
+ */
+export function QrCodeImage({ value, alt, className }: { value: string; alt: string; className?: string }) {
+  const src = useMemo(() => {
+    try {
+      return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrToSvg(encodeQr(value)))}`;
+    } catch (error) {
+      console.error('[QR] Failed to encode link:', error);
+      return null;
+    }
+  }, [value]);
+
+  if (!src) return <div className={`flex items-center justify-center text-xs text-muted-foreground ${className ?? ''}`}>Link too long</div>;
+  return <img src={src} alt={alt} className={className} />;
+}
+
+const UTM_FIELDS: { key: keyof UtmParams; label: string; placeholder: string }[] = [
+  { key: 'source', label: 'Source', placeholder: 'sales-showcase' },
+  { key: 'medium', label: 'Medium', placeholder: 'qr' },
+  { key: 'campaign', label: 'Campaign', placeholder: 'e.g. mipim-2026' },
+];
+
+/**
+ * Toggle and fields for the campaign tracking added to QR links
+ */
+export function UtmFields({ settings, onChange }: { settings: QrSettings; onChange: (settings: QrSettings) => void }) {
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-white/60 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={settings.utmEnabled}
+          onChange={(e) => onChange({ ...settings, utmEnabled: e.target.checked })}
+          className="h-4 w-4 rounded border-white/20 bg-[#1F1D4D] accent-[#8027F4]"
+        />
+        Add campaign tracking (UTM)
+      </label>
+      {settings.utmEnabled && (
+        <div className="grid grid-cols-[80px_1fr] items-center gap-2">
+          {UTM_FIELDS.map(({ key, label, placeholder }) => (
+            <React.Fragment key={key}>
+              <span className="text-xs text-muted-foreground">{label}</span>
+              <Input
+                value={settings.utm[key]}
+                onChange={(e) => onChange({ ...settings, utm: { ...settings.utm, [key]: e.target.value } })}
+                placeholder={placeholder}
+                className="h-8"
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Card and detail page button showing a QR code for the project, with downloads
+ */
+export function QrCodeButton({ instance, variant = 'icon' }: { instance: CatalogInstance; variant?: 'icon' | 'button' }) {
+  const [settings, updateSettings] = useQrSettings();
+  const [linkCopied, setLinkCopied] = useState(false);
+  const link = instance.link ? buildQrLink(qrTarget(instance), settings) : '';
+
+  useEffect(() => setLinkCopied(false), [link]);
+
+  if (!instance.link) return null;
+
+  const download = async (format: 'png' | 'svg') => {
+    try {
+      const matrix = encodeQr(link);
+      const blob = format === 'png' ? await qrToPngBlob(matrix) : new Blob([qrToSvg(matrix)], { type: 'image/svg+xml' });
+      downloadBlob(blob, qrFileName(instance.name, format));
+    } catch (error) {
+      console.error('[QR] Download failed:', error);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        {variant === 'icon' ? (
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="QR code">
+            <QrCode className="h-4 w-4 text-white/60" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="border-white/10 hover:bg-white/5 text-white/60">
+            <QrCode className="h-4 w-4 mr-2" />
+            QR code
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3">
+        <div className="rounded-md bg-white p-2 mb-2">
+          <QrCodeImage value={link} alt={`QR code for ${instance.name}`} className="w-full aspect-square" />
+        </div>
+        <p className="text-xs text-muted-foreground break-all mb-3">{link}</p>
+        <div className="mb-3">
+          <UtmFields settings={settings} onChange={updateSettings} />
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => download('png')}>
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+          <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => download('svg')}>
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </Button>
+          <Button variant="ghost" size="sm" className="ml-auto text-muted-foreground" onClick={copyLink}>
+            {linkCopied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+            {linkCopied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { formatPercent, type UnitStats } from '@/app/lib/units';
+
+interface UnitAvailabilityBarProps {
+  stats: UnitStats;
+  label?: string; // Shown before the counts, e.g. the build step
+  compact?: boolean; // Cards: thinner bar, counts only
+  className?: string;
+}
+
+/**
+ * Stacked bar of available (green), sold (purple) and other units (grey)
+ */
+export function UnitAvailabilityBar({ stats, label, compact = false, className = '' }: UnitAvailabilityBarProps) {
+  const share = (count: number) => `${(count / stats.total) * 100}%`;
+  const summary = `${stats.available} of ${stats.total} available, ${formatPercent(stats.sellThrough)} sold`;
+
+  return (
+    <div className={className} title={summary}>
+      <div className={`flex items-center justify-between gap-2 text-muted-foreground ${compact ? 'text-xs mb-1' : 'text-sm mb-2'}`}>
+        <span className="truncate">
+          {label && <span className="text-white/80 mr-2">{label}</span>}
+          <span className="text-green-400">{stats.available}</span> of {stats.total} available
+        </span>
+        <span className="shrink-0">{formatPercent(stats.sellThrough)} sold</span>
+      </div>
+      <div
+        className={`flex w-full rounded-full bg-white/10 overflow-hidden ${compact ? 'h-1.5' : 'h-2.5'}`}
+        role="img"
+        aria-label={summary}
+      >
+        <div className="h-full bg-green-500" style={{ width: share(stats.available) }} />
+        <div className="h-full bg-[#8027F4]" style={{ width: share(stats.sold) }} />
+        <div className="h-full bg-white/20" style={{ width: share(stats.other) }} />
+      </div>
+    </div>
+  );
+}
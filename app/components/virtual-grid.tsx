@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// Same breakpoints as grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5
+const COLUMN_BREAKPOINTS = [
+  { query: '(min-width: 1536px)', columns: 5 },
+  { query: '(min-width: 1280px)', columns: 4 },
+  { query: '(min-width: 1024px)', columns: 3 },
+  { query: '(min-width: 768px)', columns: 2 },
+];
+
+const ROW_GAP = 24; // gap-6
+const ESTIMATED_ROW_HEIGHT = 360;
+// Rows rendered above and below the viewport so fast scrolling doesn't show blanks
+const OVERSCAN = 800;
+
+function readColumnCount(): number {
+  if (typeof window === 'undefined') return 1;
+  return COLUMN_BREAKPOINTS.find((breakpoint) => window.matchMedia(breakpoint.query).matches)?.columns ?? 1;
+}
+
+/**
+ * Number of grid columns for the current viewport width
+ */
+export function useColumnCount(): number {
+  const [columns, setColumns] = useState(readColumnCount);
+
+  useEffect(() => {
+    const update = () => setColumns(readColumnCount());
+    const queries = COLUMN_BREAKPOINTS.map((breakpoint) => window.matchMedia(breakpoint.query));
+    queries.forEach((query) => query.addEventListener('change', update));
+    update();
+    return () => queries.forEach((query) => query.removeEventListener('change', update));
+  }, []);
+
+  return columns;
+}
+
+interface ScrollAnchor {
+  key: string;
+  offset: number; // Distance from the viewport top to the anchor row
+}
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+}
+
+/**
+ * Responsive card grid that only mounts the rows near the viewport.
+ * Rows are measured after render, so cards may be any height. When `items`
+ * changes (e.g. a filter), the first card in view stays where it was if it is
+ * still in the list.
+ */
+export function VirtualGrid<T>({ items, getKey, renderItem }: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const [rowHeights, setRowHeights] = useState<number[]>([]);
+  const [range, setRange] = useState({ start: 0, end: 1 });
+  const columns = useColumnCount();
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Row composition changes with the column count, so old measurements no longer apply
+  useEffect(() => {
+    setRowHeights([]);
+  }, [columns]);
+
+  const offsets = useMemo(() => {
+    const measured = rowHeights.filter(Boolean);
+    const estimate = measured.length > 0
+      ? measured.reduce((sum, height) => sum + height, 0) / measured.length
+      : ESTIMATED_ROW_HEIGHT;
+    const result = [0];
+    for (let row = 0; row < rowCount; row++) {
+      result.push(result[row] + (rowHeights[row] || estimate) + ROW_GAP);
+    }
+    return result;
+  }, [rowCount, rowHeights]);
+
+  const totalHeight = rowCount > 0 ? offsets[rowCount] - ROW_GAP : 0;
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const top = -rect.top - OVERSCAN;
+    const bottom = -rect.top + window.innerHeight + OVERSCAN;
+
+    let start = 0;
+    while (start < rowCount - 1 && offsets[start + 1] <= top) start++;
+    let end = start;
+    while (end < rowCount && offsets[end] < bottom) end++;
+
+    setRange((current) => (current.start === start && current.end === end ? current : { start, end }));
+
+    // Remember the first row in view while this grid spans the top of the viewport
+    if (rect.top <= 0 && rect.bottom > 0 && rowCount > 0) {
+      let row = 0;
+      while (row < rowCount - 1 && offsets[row + 1] <= -rect.top) row++;
+      anchorRef.current = { key: getKey(items[row * columns]), offset: rect.top + offsets[row] };
+    } else {
+      anchorRef.current = null;
+    }
+  }, [rowCount, offsets, getKey, items, columns]);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, [updateRange]);
+
+  // Keep the anchored card in place when the list changes under it
+  const previousItemsRef = useRef(items);
+  useLayoutEffect(() => {
+    if (previousItemsRef.current === items) return;
+    previousItemsRef.current = items;
+
+    const anchor = anchorRef.current;
+    const container = containerRef.current;
+    if (!anchor || !container) return;
+    const index = items.findIndex((item) => getKey(item) === anchor.key);
+    if (index < 0) return;
+
+    const containerTop = container.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({ top: containerTop + offsets[Math.floor(index / columns)] - anchor.offset });
+  }, [items, getKey, offsets, columns]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  // Measure the mounted rows; state only changes when a height actually differs
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measured: Array<[number, number]> = [];
+    container.querySelectorAll<HTMLElement>('[data-grid-row]').forEach((element) => {
+      measured.push([Number(element.dataset.gridRow), element.offsetHeight]);
+    });
+    setRowHeights((current) => {
+      if (measured.every(([row, height]) => Math.abs((current[row] ?? 0) - height) <= 0.5)) return current;
+      const next = [...current];
+      measured.forEach(([row, height]) => {
+        next[row] = height;
+      });
+      return next;
+    });
+  });
+
+  const rows: number[] = [];
+  for (let row = range.start; row < Math.min(range.end, rowCount); row++) rows.push(row);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight, overflowAnchor: 'none' }}>
+      {rows.map((row) => (
+        <div
+          key={row}
+          data-grid-row={row}
+          className="absolute left-0 right-0 grid gap-6"
+          style={{ top: offsets[row], gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {items.slice(row * columns, (row + 1) * columns).map((item, column) => (
+            <React.Fragment key={getKey(item)}>{renderItem(item, row * columns + column)}</React.Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight, History, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  getStatusChange,
+  isRecentRelease,
+  isReleaseEmpty,
+  markReleaseSeen,
+  readSeenRelease,
+  selectVisibleRelease,
+  type CatalogChangelog,
+  type CatalogRelease,
+  type ChangelogInstance,
+} from '@/app/lib/changelog';
+import type { RolePolicy } from '@/app/lib/roles';
+
+export function formatReleaseDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function ReleaseList({
+  title,
+  items,
+  limit,
+}: {
+  title: string;
+  items: React.ReactNode[];
+  limit?: number;
+}) {
+  if (items.length === 0) return null;
+  const shown = limit ? items.slice(0, limit) : items;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-white/80 mb-2">{title}</h3>
+      <ul className="space-y-1 text-sm text-muted-foreground">
+        {shown}
+        {items.length > shown.length && <li>and {items.length - shown.length} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * The changes of one release, grouped the way sales talks about them:
+ * launches first, then status flips, feature changes and removals
+ */
+export function ReleaseDetails({
+  release,
+  instanceIds,
+  limit,
+}: {
+  release: CatalogRelease;
+  instanceIds: Set<string>; // Instances still in the catalog get a link
+  limit?: number; // Max entries per list
+}) {
+  const name = (entry: ChangelogInstance) => (
+    <>
+      {instanceIds.has(entry.id) ? (
+        <Link href={`/instances/${entry.id}`} className="text-white hover:underline">{entry.name}</Link>
+      ) : (
+        <span className="text-white">{entry.name}</span>
+      )}
+      {entry.client && <span> &middot; {entry.client}</span>}
+    </>
+  );
+
+  const statusChanges = release.changed.filter((entry) => getStatusChange(entry));
+  const featureChanges = release.changed.filter((entry) => entry.features.added.length + entry.features.removed.length > 0);
+  const otherChanges = release.changed.filter((entry) =>
+    !getStatusChange(entry) && entry.features.added.length + entry.features.removed.length === 0
+  );
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <ReleaseList
+        title={`New projects (${release.added.length})`}
+        limit={limit}
+        items={release.added.map((entry) => <li key={entry.id}>{name(entry)}</li>)}
+      />
+      <ReleaseList
+        title={`Status changes (${statusChanges.length})`}
+        limit={limit}
+        items={statusChanges.map((entry) => {
+          const status = getStatusChange(entry);
+          return (
+            <li key={entry.id}>
+              {name(entry)}: {String(status?.from ?? 'Unknown')} &rarr; {String(status?.to ?? 'Unknown')}
+            </li>
+          );
+        })}
+      />
+      <ReleaseList
+        title={`Feature changes (${featureChanges.length})`}
+        limit={limit}
+        items={featureChanges.map((entry) => (
+          <li key={entry.id}>
+            {name(entry)}:{' '}
+            {entry.features.added.map((feature) => <span key={`+${feature}`} className="text-green-400">+{feature} </span>)}
+            {entry.features.removed.map((feature) => <span key={`-${feature}`} className="text-red-400">&minus;{feature} </span>)}
+          </li>
+        ))}
+      />
+      <ReleaseList
+        title={`Other updates (${otherChanges.length})`}
+        limit={limit}
+        items={otherChanges.map((entry) => (
+          <li key={entry.id}>
+            {name(entry)}: {entry.fields.map((field) => field.field).join(', ')} changed
+          </li>
+        ))}
+      />
+      <ReleaseList
+        title={`Removed (${release.removed.length})`}
+        limit={limit}
+        items={release.removed.map((entry) => <li key={entry.id}>{name(entry)}</li>)}
+      />
+    </div>
+  );
+}
+
+export function ReleaseBadges({ release }: { release: CatalogRelease }) {
+  const wentPrivate = release.changed.filter((entry) => getStatusChange(entry)?.to === 'Private').length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {release.added.length > 0 && (
+        <Badge variant="outline" className="bg-[#8027F4]/20 text-white border-[#8027F4]/40">{release.added.length} new</Badge>
+      )}
+      {release.changed.length > 0 && <Badge variant="secondary">{release.changed.length} updated</Badge>}
+      {wentPrivate > 0 && (
+        <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">{wentPrivate} now private</Badge>
+      )}
+      {release.removed.length > 0 && (
+        <Badge variant="outline" className="text-white/60 border-white/20">{release.removed.length} removed</Badge>
+      )}
+    </div>
+  );
+}
+
+interface WhatsNewPanelProps {
+  changelog: CatalogChangelog | null;
+  rolePolicy: RolePolicy;
+  instanceIds: Set<string>;
+}
+
+/**
+ * Summary of the latest recent data release above the grid. Starts expanded
+ * until the release has been dismissed once in this browser.
+ */
+export function WhatsNewPanel({ changelog, rolePolicy, instanceIds }: WhatsNewPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const release = changelog?.releases
+    .filter((candidate) => isRecentRelease(candidate))
+    .map((candidate) => selectVisibleRelease(candidate, rolePolicy))
+    .find((candidate) => !isReleaseEmpty(candidate));
+
+  const releaseId = release?.id;
+  useEffect(() => {
+    if (releaseId) setExpanded(readSeenRelease() !== releaseId);
+  }, [releaseId]);
+
+  if (!release) return null;
+
+  const toggle = () => {
+    if (expanded) markReleaseSeen(release.id);
+    setExpanded(!expanded);
+  };
+
+  return (
+    <Card className="mb-6 border-[#8027F4]/30" style={{ backgroundColor: 'transparent' }}>
+      <CardHeader className="py-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            type="button"
+            className="flex items-center gap-2 text-left"
+            aria-expanded={expanded}
+            onClick={toggle}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <Sparkles className="h-4 w-4 text-[#8027F4]" />
+            <CardTitle className="text-lg">What&apos;s new</CardTitle>
+            <span className="text-sm text-muted-foreground">Catalog updated {formatReleaseDate(release.date)}</span>
+          </button>
+          <div className="flex items-center gap-3">
+            <ReleaseBadges release={release} />
+            <Button asChild variant="ghost" size="sm" className="text-white/60">
+              <Link href="/instances/changelog">
+                <History className="h-4 w-4 mr-2" />
+                Changelog
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {expanded && (
+        <CardContent>
+          <ReleaseDetails release={release} instanceIds={instanceIds} limit={8} />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { notFound } from 'next/navigation';
+import { readCatalog } from '@/app/lib/catalog-server';
+import { selectInstanceById } from '@/app/lib/catalog';
+import { hasShortLink } from '@/app/lib/qr';
+import { ShortLinkRedirect } from './short-link-redirect';
+
+// Outside /instances, so prospects scanning a QR code don't need to sign in. Only
+// public projects get a page, anything else 404s on GitHub Pages.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return readCatalog().instances.filter(hasShortLink).map((instance) => ({ id: instance.id }));
+}
+
+export function generateMetadata({ params }: { params: { id: string } }) {
+  const instance = selectInstanceById(readCatalog().instances, params.id);
+  return {
+    title: instance && hasShortLink(instance) ? `${instance.name} - Sales Showcase` : 'Sales Showcase',
+  };
+}
+
+export default function ShortLinkPage({ params }: { params: { id: string } }) {
+  const instance = selectInstanceById(readCatalog().instances, params.id);
+  if (!instance?.link || !hasShortLink(instance)) {
+    notFound();
+  }
+
+  return <ShortLinkRedirect name={instance.name} link={instance.link} />;
+}
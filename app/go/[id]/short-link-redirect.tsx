@@ -0,0 +1,31 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { forwardQueryParams } from '@/app/lib/qr';
+
+interface ShortLinkRedirectProps {
+  name: string;
+  link: string;
+}
+
+/**
+ * Forwards a short link to the project, keeping its UTM parameters
+ */
+export function ShortLinkRedirect({ name, link }: ShortLinkRedirectProps) {
+  const [target, setTarget] = useState(link);
+
+  useEffect(() => {
+    const forwarded = forwardQueryParams(link, window.location.search);
+    setTarget(forwarded);
+    window.location.replace(forwarded);
+  }, [link]);
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center justify-center gap-2 bg-background text-foreground px-6 text-center">
+      <p className="text-lg font-semibold">Opening {name}…</p>
+      <a href={target} className="text-sm text-muted-foreground hover:text-foreground underline">
+        Continue if nothing happens
+      </a>
+    </div>
+  );
+}
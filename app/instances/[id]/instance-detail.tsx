@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Check, HardDrive, Loader2, Lock, Play } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { OverviewAnimation } from '@/app/components/overview-animation';
+import { AssetImage } from '@/app/components/asset-image';
+import { PanoramaViewer } from '@/app/components/panorama-viewer';
+import type { CatalogInstance, InstanceAssets } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+import { canLaunchInstance, isInstanceVisible } from '@/app/lib/roles';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { useOfflineProjects } from '@/app/components/offline';
+import { formatBytes } from '@/app/lib/offline';
+import { formatPercent, getGroupUnitStats, getUnitStats } from '@/app/lib/units';
+import { featureSlug } from '@/app/lib/features';
+import { UnitAvailabilityBar } from '@/app/components/unit-availability';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { ClientLogo } from '@/app/components/client-logo';
+import { useProjectLauncher } from '@/app/components/project-launcher';
+import { QrCodeButton } from '@/app/components/qr-code';
+import { CollectionControls } from '@/app/components/collections';
+import { getClient } from '@/app/lib/clients';
+
+interface InstanceDetailProps {
+  instance: CatalogInstance;
+  assets: InstanceAssets;
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4 py-2 border-b border-white/5 last:border-b-0">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <span className="text-sm text-right">{children}</span>
+    </div>
+  );
+}
+
+export function InstanceDetail({ instance, assets }: InstanceDetailProps) {
+  // basePath is only known in the browser, render assets after mount
+  const [basePath, setBasePath] = useState<string | null>(null);
+  const [panoramaFailed, setPanoramaFailed] = useState(false);
+  const rolePolicy = useRolePolicy();
+  const launcher = useProjectLauncher();
+  const offline = useOfflineProjects();
+  const pinned = offline.pinned[instance.id];
+  const pinProgress = offline.progress[instance.id];
+
+  useEffect(() => {
+    setBasePath(getBasePath());
+  }, []);
+
+  const previewSrc = basePath !== null && assets.hasPreview ? `${basePath}/previews/${instance.uuid}.webp` : null;
+  const featuresBehindLogin = rolePolicy.showFeaturesBehindLogin ? instance.featuresBehindLogin ?? [] : [];
+  const unitStats = getUnitStats(instance);
+  const groupUnitStats = getGroupUnitStats(instance);
+
+  const backLink = (
+    <Link
+      href="/instances"
+      className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+    >
+      <ArrowLeft className="h-4 w-4 mr-2" />
+      All instances
+    </Link>
+  );
+
+  if (!isInstanceVisible(instance, rolePolicy)) {
+    return (
+      <div className="min-h-screen w-full bg-background text-foreground">
+        <div className="w-full max-w-7xl mx-auto px-6 py-8">
+          {backLink}
+          <div className="text-center py-12">
+            <Lock className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">This project is not available for your role</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-7xl mx-auto px-6 py-8">
+        {backLink}
+
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-8">
+          <div>
+            {instance.client && (
+              <Link
+                href={`/clients/${getClient(instance.client).slug}`}
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-1"
+              >
+                <ClientLogo name={instance.client} size="sm" />
+                {instance.client}
+              </Link>
+            )}
+            <h1 className="text-4xl font-bold mb-3">{instance.name}</h1>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">{instance.type}</Badge>
+              {instance.isShowcase && (
+                <Badge variant="default" className="bg-purple-600 hover:bg-purple-700">
+                  Showcase
+                </Badge>
+              )}
+              {instance.status && (
+                <Badge
+                  variant="outline"
+                  className={
+                    instance.status === 'Public'
+                      ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                      : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+                  }
+                >
+                  {instance.status === 'Private' && <Lock className="h-3 w-3 mr-1" />}
+                  {instance.status}
+                </Badge>
+              )}
+              {instance.hidden && (
+                <Badge variant="outline" className="text-white/60 border-white/20">
+                  Hidden
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <CollectionControls instanceId={instance.id} />
+            {offline.supported && (
+              pinProgress ? (
+                <Button variant="outline" disabled>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Downloading {pinProgress.done}/{pinProgress.total}
+                </Button>
+              ) : pinned ? (
+                <Button
+                  variant="outline"
+                  className={pinned.complete ? 'border-emerald-500/30 text-emerald-400' : 'border-yellow-500/30 text-yellow-400'}
+                  title={pinned.complete
+                    ? `Stored for offline use (${formatBytes(pinned.bytes)}). Click to remove.`
+                    : 'Some assets are missing. Click to remove, then make available offline again.'}
+                  onClick={() => offline.unpin(instance.id)}
+                >
+                  {pinned.complete ? <Check className="h-4 w-4 mr-2" /> : <HardDrive className="h-4 w-4 mr-2" />}
+                  {pinned.complete ? 'Available offline' : 'Partly available offline'}
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => offline.pin(instance)}>
+                  <HardDrive className="h-4 w-4 mr-2" />
+                  Make available offline
+                </Button>
+              )
+            )}
+            {canLaunchInstance(instance, rolePolicy) && <QrCodeButton instance={instance} variant="button" />}
+            {canLaunchInstance(instance, rolePolicy) ? (
+              <Button
+                className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white"
+                onClick={() => launcher.launch(instance)}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Open project
+              </Button>
+            ) : instance.link ? (
+              <Button variant="outline" disabled title="Launching private projects is not available for your role">
+                <Lock className="h-4 w-4 mr-2" />
+                Private project
+              </Button>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <Card className="overflow-hidden" style={{ backgroundColor: 'transparent' }}>
+            <CardHeader>
+              <CardTitle className="text-lg">Overview</CardTitle>
+              <CardDescription>Hover to play the project overview</CardDescription>
+            </CardHeader>
+            <div className="aspect-video relative overflow-hidden">
+              {basePath !== null && assets.hasOverviewImages ? (
+                <OverviewAnimation projectId={instance.uuid} basePath={basePath} />
+              ) : previewSrc ? (
+                <AssetImage projectId={instance.uuid} sources={[previewSrc]} kind="preview" alt={instance.name} className="w-full h-full object-cover" decoding="async" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-sm text-muted-foreground">
+                  No overview available
+                </div>
+              )}
+            </div>
+          </Card>
+
+          <Card className="overflow-hidden" style={{ backgroundColor: 'transparent' }}>
+            <CardHeader>
+              <CardTitle className="text-lg">360° preview</CardTitle>
+              <CardDescription>Drag to look around</CardDescription>
+            </CardHeader>
+            <div className="aspect-video relative overflow-hidden">
+              {basePath !== null && assets.panorama && !panoramaFailed ? (
+                <PanoramaViewer
+                  imageSrc={`${basePath}${assets.panorama}`}
+                  onLoadError={() => setPanoramaFailed(true)}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-sm text-muted-foreground">
+                  {panoramaFailed ? 'The panorama could not be loaded' : 'No panorama available'}
+                </div>
+              )}
+            </div>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card style={{ backgroundColor: 'transparent' }}>
+            <CardHeader>
+              <CardTitle className="text-lg">Features</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {instance.features.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {instance.features.map((feature) => (
+                    <Link key={feature} href={`/instances/features#${featureSlug(feature)}`}>
+                      <FeatureChip name={feature} type={instance.type} />
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No features listed</p>
+              )}
+              {featuresBehindLogin.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-sm text-muted-foreground mb-2">Behind login</p>
+                  <div className="flex flex-wrap gap-2">
+                    {featuresBehindLogin.map((feature) => (
+                      <FeatureChip key={feature} name={feature} type={instance.type} locked />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card style={{ backgroundColor: 'transparent' }}>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DetailRow label="Client">{instance.client || '—'}</DetailRow>
+              <DetailRow label="Type">{instance.type}</DetailRow>
+              <DetailRow label="Status">{instance.status ?? '—'}</DetailRow>
+              <DetailRow label="Showcase">{instance.isShowcase ? 'Yes' : 'No'}</DetailRow>
+              {instance.description && <DetailRow label="Description">{instance.description}</DetailRow>}
+            </CardContent>
+          </Card>
+        </div>
+
+        {unitStats && (
+          <Card className="mt-6" style={{ backgroundColor: 'transparent' }}>
+            <CardHeader>
+              <CardTitle className="text-lg">Unit availability</CardTitle>
+              <CardDescription>
+                {instance.groups && instance.groups > 1 ? `${instance.groups} build steps` : 'From the latest API scan'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <UnitAvailabilityBar stats={unitStats} className="mb-4" />
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6">
+                <DetailRow label="Total">{unitStats.total}</DetailRow>
+                <DetailRow label="Available">{unitStats.available}</DetailRow>
+                <DetailRow label="Sold">{unitStats.sold}</DetailRow>
+                <DetailRow label="Sell-through">{formatPercent(unitStats.sellThrough)}</DetailRow>
+              </div>
+              {groupUnitStats.length > 1 && (
+                <div className="mt-6 space-y-4">
+                  {groupUnitStats.map((stats, index) => (
+                    <UnitAvailabilityBar key={index} stats={stats} label={`Build step ${index + 1}`} compact />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
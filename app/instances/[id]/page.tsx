@@ -0,0 +1,27 @@
+import { notFound } from 'next/navigation';
+import { readCatalog, readInstanceAssets } from '@/app/lib/catalog-server';
+import { selectInstanceById } from '@/app/lib/catalog';
+import { InstanceDetail } from './instance-detail';
+
+// Every instance is exported as a static page; unknown ids 404 on GitHub Pages
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return readCatalog().instances.map((instance) => ({ id: instance.id }));
+}
+
+export function generateMetadata({ params }: { params: { id: string } }) {
+  const instance = selectInstanceById(readCatalog().instances, params.id);
+  return {
+    title: instance ? `${instance.name} - Sales Showcase` : 'Explore Instances - Sales Showcase',
+  };
+}
+
+export default function InstanceDetailPage({ params }: { params: { id: string } }) {
+  const instance = selectInstanceById(readCatalog().instances, params.id);
+  if (!instance) {
+    notFound();
+  }
+
+  return <InstanceDetail instance={instance} assets={readInstanceAssets(instance.uuid)} />;
+}
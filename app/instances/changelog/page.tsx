@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { ReleaseBadges, ReleaseDetails, formatReleaseDate } from '@/app/components/whats-new';
+import { loadCatalog } from '@/app/lib/catalog';
+import {
+  isReleaseEmpty,
+  loadCatalogChangelog,
+  selectVisibleRelease,
+  type CatalogChangelog,
+} from '@/app/lib/changelog';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+export default function ChangelogPage() {
+  const [changelog, setChangelog] = useState<CatalogChangelog | null>(null);
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const rolePolicy = useRolePolicy();
+
+  useEffect(() => {
+    const basePath = getBasePath();
+    Promise.all([loadCatalogChangelog(basePath), loadCatalog(basePath)])
+      .then(([releases, catalog]) => {
+        setChangelog(releases);
+        setInstances(catalog.instances);
+      })
+      .catch((error) => console.error('Failed to load changelog:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const instanceIds = useMemo(
+    () => new Set(selectVisibleInstances(instances, rolePolicy).map((instance) => instance.id)),
+    [instances, rolePolicy]
+  );
+
+  const releases = useMemo(
+    () => (changelog?.releases ?? [])
+      .map((release) => selectVisibleRelease(release, rolePolicy))
+      .filter((release) => !isReleaseEmpty(release)),
+    [changelog, rolePolicy]
+  );
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-5xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <h1 className="text-4xl font-bold mb-2">Changelog</h1>
+        <p className="text-muted-foreground mb-8">
+          What changed in the catalog with each data release: new projects, removals, feature changes and status flips.
+        </p>
+
+        {!loading && releases.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No catalog changes recorded yet</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {releases.map((release) => (
+            <Card key={release.id} style={{ backgroundColor: 'transparent' }}>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <CardTitle className="text-lg">{formatReleaseDate(release.date)}</CardTitle>
+                  <ReleaseBadges release={release} />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ReleaseDetails release={release} instanceIds={instanceIds} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Check,
+  Download,
+  Link2,
+  MonitorPlay,
+  Pencil,
+  QrCode,
+  Star,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { useCollections } from '@/app/components/collections';
+import { DEFAULT_CATALOG_FILTERS, loadCatalog } from '@/app/lib/catalog';
+import {
+  FAVORITES_COLLECTION_NAME,
+  createCollection,
+  deleteCollection,
+  exportCollections,
+  mergeCollections,
+  moveInCollection,
+  parseCollectionsExport,
+  renameCollection,
+  toggleFavorite,
+  toggleInCollection,
+} from '@/app/lib/collections';
+import { filtersToSearchParams } from '@/app/lib/filter-url';
+import { presentationToSearchParams } from '@/app/lib/presentation';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+// Grid query string that lists only these instances, in order
+const collectionSearch = (name: string, ids: string[]) =>
+  filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, ids, collection: name }).toString();
+
+interface CollectionPanelProps {
+  name: string;
+  description: string;
+  instanceIds: string[];
+  instancesById: Map<string, CatalogInstance>;
+  onRemove: (instanceId: string) => void;
+  onMove?: (instanceId: string, offset: number) => void;
+  onRename?: (name: string) => void;
+  onDelete?: () => void;
+  icon?: React.ReactNode;
+}
+
+function CollectionPanel({
+  name,
+  description,
+  instanceIds,
+  instancesById,
+  onRemove,
+  onMove,
+  onRename,
+  onDelete,
+  icon,
+}: CollectionPanelProps) {
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState(name);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const search = collectionSearch(name, instanceIds);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getBasePath()}/instances/?${search}`);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <Card className="mb-6" style={{ backgroundColor: 'transparent' }}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="min-w-0">
+            {editing && onRename ? (
+              <form
+                className="flex items-center gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (draftName.trim()) onRename(draftName);
+                  setEditing(false);
+                }}
+              >
+                <Input value={draftName} onChange={(e) => setDraftName(e.target.value)} className="h-9 w-[260px]" autoFocus />
+                <Button type="submit" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Save name">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Cancel" onClick={() => setEditing(false)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </form>
+            ) : (
+              <CardTitle className="text-lg flex items-center gap-2">
+                {icon}
+                {name}
+                {onRename && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-muted-foreground"
+                    title="Rename collection"
+                    onClick={() => {
+                      setDraftName(name);
+                      setEditing(true);
+                    }}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </CardTitle>
+            )}
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {instanceIds.length > 0 && (
+              <>
+                <Button asChild size="sm" className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white">
+                  <Link href={`/instances/present?${presentationToSearchParams({ ids: instanceIds, title: name, start: 0, autoAdvance: 0 })}`}>
+                    <MonitorPlay className="h-4 w-4 mr-2" />
+                    Present
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+                  <Link href={`/instances?${search}`}>Open in grid</Link>
+                </Button>
+                <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+                  <Link href={`/instances/qr-sheet?${search}`}>
+                    <QrCode className="h-4 w-4 mr-2" />
+                    QR sheet
+                  </Link>
+                </Button>
+                <Button variant="ghost" size="sm" className="text-muted-foreground" title="Copy a link that opens the grid with only these projects" onClick={copyLink}>
+                  {linkCopied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+                  {linkCopied ? 'Link copied' : 'Copy link'}
+                </Button>
+              </>
+            )}
+            {onDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-400 hover:bg-red-500/10"
+                title="Delete collection"
+                onClick={() => {
+                  if (window.confirm(`Delete the collection "${name}"?`)) onDelete();
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {instanceIds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing here yet</p>
+        ) : (
+          <ol className="space-y-2">
+            {instanceIds.map((id, index) => {
+              const instance = instancesById.get(id);
+              return (
+                <li key={id} className="flex items-center gap-3 rounded-lg border border-white/10 px-3 py-2">
+                  <span className="w-6 text-right text-sm text-muted-foreground">{index + 1}</span>
+                  <div className="min-w-0 flex-1">
+                    {instance ? (
+                      <>
+                        <Link href={`/instances/${instance.id}`} className="font-medium hover:underline truncate block">
+                          {instance.name}
+                        </Link>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {[instance.client, instance.type].filter(Boolean).join(' · ')}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground truncate" title={id}>
+                        Not available for your role or no longer in the catalog
+                      </p>
+                    )}
+                  </div>
+                  {onMove && (
+                    <>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move up" disabled={index === 0} onClick={() => onMove(id, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Move down"
+                        disabled={index === instanceIds.length - 1}
+                        onClick={() => onMove(id, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove" onClick={() => onRemove(id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CollectionsPage() {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+  const [newName, setNewName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const rolePolicy = useRolePolicy();
+  const [saved, update] = useCollections();
+
+  useEffect(() => {
+    loadCatalog(getBasePath())
+      .then((catalog) => setInstances(catalog.instances))
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'));
+  }, []);
+
+  const instancesById = useMemo(
+    () => new Map(selectVisibleInstances(instances, rolePolicy).map((instance) => [instance.id, instance])),
+    [instances, rolePolicy]
+  );
+
+  const downloadExport = () => {
+    const blob = new Blob([exportCollections(saved)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sales-showcase-collections-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseCollectionsExport(await file.text());
+      update((current) => mergeCollections(current, imported));
+      setImportMessage({
+        kind: 'success',
+        text: `Imported ${imported.collections.length} ${imported.collections.length === 1 ? 'collection' : 'collections'} and ${imported.favorites.length} favorites`,
+      });
+    } catch (error) {
+      setImportMessage({ kind: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-4xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Collections</h1>
+            <p className="text-muted-foreground">
+              Starred projects and ordered collections for your pitches, saved in this browser
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60" onClick={downloadExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-white/10 hover:bg-white/5 text-white/60"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {importMessage && (
+          <Alert
+            variant={importMessage.kind === 'error' ? 'destructive' : 'default'}
+            className={importMessage.kind === 'error'
+              ? 'mb-6 bg-red-500/10 border-red-500/20 text-red-400'
+              : 'mb-6 bg-[#8027F4]/10 border-[#8027F4]/30 text-white/80'}
+          >
+            {importMessage.kind === 'error' ? <AlertCircle className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+            <AlertDescription>{importMessage.text}</AlertDescription>
+          </Alert>
+        )}
+
+        <CollectionPanel
+          name={FAVORITES_COLLECTION_NAME}
+          description={`${saved.favorites.length} starred ${saved.favorites.length === 1 ? 'project' : 'projects'}`}
+          instanceIds={saved.favorites}
+          instancesById={instancesById}
+          icon={<Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />}
+          onRemove={(id) => update((current) => toggleFavorite(current, id))}
+        />
+
+        {saved.collections.map((collection) => (
+          <CollectionPanel
+            key={collection.id}
+            name={collection.name}
+            description={`${collection.instanceIds.length} ${collection.instanceIds.length === 1 ? 'project' : 'projects'} · updated ${new Date(collection.updatedAt).toLocaleDateString()}`}
+            instanceIds={collection.instanceIds}
+            instancesById={instancesById}
+            onRemove={(id) => update((current) => toggleInCollection(current, collection.id, id))}
+            onMove={(id, offset) => update((current) => moveInCollection(current, collection.id, id, offset))}
+            onRename={(name) => update((current) => renameCollection(current, collection.id, name))}
+            onDelete={() => update((current) => deleteCollection(current, collection.id))}
+          />
+        ))}
+
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newName.trim()) return;
+            update((current) => createCollection(current, newName));
+            setNewName('');
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder='New collection, e.g. "Oslo residential pitch"'
+            className="w-[320px]"
+          />
+          <Button type="submit" variant="outline" disabled={!newName.trim()}>
+            Create collection
+          </Button>
+        </form>
+        <p className="text-sm text-muted-foreground mt-2">
+          Add projects with the collection button on each card or project page.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, Check, Lock, Minus, Play, X } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { AssetImage } from '@/app/components/asset-image';
+import { ClientLogo } from '@/app/components/client-logo';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { PanoramaViewer } from '@/app/components/panorama-viewer';
+import { useProjectLauncher } from '@/app/components/project-launcher';
+import { UnitAvailabilityBar } from '@/app/components/unit-availability';
+import { loadAssetManifest, selectPanoramaSrc, selectProjectAssets, type AssetManifest } from '@/app/lib/asset-manifest';
+import { loadCatalog } from '@/app/lib/catalog';
+import { getClient } from '@/app/lib/clients';
+import { MAX_COMPARE, MIN_COMPARE, compareToSearchParams, readCompareTray, selectFeatureComparison, writeCompareTray } from '@/app/lib/compare';
+import { readFiltersFromLocation } from '@/app/lib/filter-url';
+import { canLaunchInstance, selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getUnitStats } from '@/app/lib/units';
+import { getBasePath } from '@/app/lib/utils';
+
+interface Rotation {
+  yaw: number;
+  pitch: number;
+}
+
+function CompareRow({ label, columns, children }: { label: React.ReactNode; columns: number; children: React.ReactNode }) {
+  return (
+    <div
+      className="grid gap-4 items-center border-t border-white/10 py-3"
+      style={{ gridTemplateColumns: `160px repeat(${columns}, minmax(0, 1fr))` }}
+    >
+      <div className="text-sm text-muted-foreground">{label}</div>
+      {children}
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  // A shared link wins over the tray of this browser, and is never written into it
+  const [{ ids, fromTray }, setSelection] = useState(() => {
+    const fromUrl = readFiltersFromLocation().ids.slice(0, MAX_COMPARE);
+    return fromUrl.length > 0 ? { ids: fromUrl, fromTray: false } : { ids: readCompareTray(), fromTray: true };
+  });
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [syncRotation, setSyncRotation] = useState(true);
+  const [rotation, setRotation] = useState<Rotation>({ yaw: 0, pitch: 0 });
+  const [noPanorama, setNoPanorama] = useState<Set<string>>(new Set());
+  // Instance whose panorama the user last grabbed; only its rotation is followed, and it isn't sent back to it
+  const [leader, setLeader] = useState<string | null>(null);
+  const leaderRef = useRef(leader);
+  leaderRef.current = leader;
+  const rotationHandlersRef = useRef(new Map<string, (yaw: number, pitch: number) => void>());
+  const syncRef = useRef(syncRotation);
+  syncRef.current = syncRotation;
+  const rolePolicy = useRolePolicy();
+  const launcher = useProjectLauncher();
+  const basePath = getBasePath();
+
+  useEffect(() => {
+    Promise.all([loadCatalog(basePath), loadAssetManifest(basePath)])
+      .then(([catalog, manifest]) => {
+        setInstances(catalog.instances);
+        setAssetManifest(manifest);
+      })
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, [basePath]);
+
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}?${compareToSearchParams(ids)}`);
+  }, [ids]);
+
+  const columns = useMemo(() => {
+    const visible = new Map(selectVisibleInstances(instances, rolePolicy).map((instance) => [instance.id, instance]));
+    return ids.map((id) => visible.get(id)).filter((instance): instance is CatalogInstance => !!instance);
+  }, [instances, rolePolicy, ids]);
+
+  const features = useMemo(() => selectFeatureComparison(columns), [columns]);
+
+  // PanoramaViewer keeps the callback it was created with, so each instance gets one that only reads refs
+  const rotationHandler = (id: string) => {
+    let handler = rotationHandlersRef.current.get(id);
+    if (!handler) {
+      handler = (yaw: number, pitch: number) => {
+        if (syncRef.current && leaderRef.current === id) setRotation({ yaw, pitch });
+      };
+      rotationHandlersRef.current.set(id, handler);
+    }
+    return handler;
+  };
+
+  const remove = (id: string) => {
+    const next = ids.filter((candidate) => candidate !== id);
+    setSelection({ ids: next, fromTray });
+    if (fromTray) writeCompareTray(next);
+  };
+
+  const count = columns.length;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Compare</h1>
+            <p className="text-muted-foreground">Drag any panorama to turn them all to the same direction</p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className={syncRotation
+              ? 'border-[#8027F4]/40 bg-[#8027F4]/10 hover:bg-[#8027F4]/20 text-white'
+              : 'border-white/10 hover:bg-white/5 text-white/60'}
+            aria-pressed={syncRotation}
+            onClick={() => setSyncRotation(!syncRotation)}
+          >
+            Synchronised rotation {syncRotation ? 'on' : 'off'}
+          </Button>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!loading && count < MIN_COMPARE ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">
+              Add at least {MIN_COMPARE} instances with the compare button on their cards
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/instances">Browse instances</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div
+              className="grid gap-4 mb-4"
+              style={{ gridTemplateColumns: `160px repeat(${count}, minmax(0, 1fr))` }}
+            >
+              <div />
+              {columns.map((instance) => {
+                const assets = selectProjectAssets(assetManifest, instance.uuid);
+                const panoramaSrc = noPanorama.has(instance.id) ? null : selectPanoramaSrc(instance.uuid, basePath, assets);
+                return (
+                  <div key={instance.id} className="min-w-0">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <Link href={`/instances/${instance.id}`} className="text-lg font-semibold hover:underline truncate">
+                        {instance.name}
+                      </Link>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 shrink-0" title="Remove from comparison" onClick={() => remove(instance.id)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div
+                      className="aspect-video relative overflow-hidden rounded-lg border border-white/10"
+                      onPointerDownCapture={() => {
+                        leaderRef.current = instance.id;
+                        setLeader(instance.id);
+                      }}
+                    >
+                      {panoramaSrc ? (
+                        <PanoramaViewer
+                          imageSrc={panoramaSrc}
+                          fallbackSrc={`${basePath}/projects/${instance.uuid}/sample/sample.jpg`}
+                          autoRotate={false}
+                          externalYaw={syncRotation && leader !== instance.id ? rotation.yaw : undefined}
+                          externalPitch={syncRotation && leader !== instance.id ? rotation.pitch : undefined}
+                          onRotationChange={rotationHandler(instance.id)}
+                          onLoadError={() => setNoPanorama((current) => new Set(current).add(instance.id))}
+                        />
+                      ) : (
+                        <AssetImage
+                          projectId={instance.uuid}
+                          sources={[`${basePath}/previews/${instance.uuid}.webp`, instance.image]}
+                          kind="preview"
+                          alt={instance.name}
+                          className="w-full h-full object-cover"
+                          decoding="async"
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <CompareRow label="Client" columns={count}>
+              {columns.map((instance) => (
+                <div key={instance.id} className="min-w-0">
+                  {instance.client ? (
+                    <Link
+                      href={`/clients/${getClient(instance.client).slug}`}
+                      className="inline-flex items-center gap-2 hover:underline"
+                    >
+                      <ClientLogo name={instance.client} size="xs" />
+                      <span className="truncate">{instance.client}</span>
+                    </Link>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </div>
+              ))}
+            </CompareRow>
+
+            <CompareRow label="Type" columns={count}>
+              {columns.map((instance) => (
+                <div key={instance.id}>
+                  <Badge variant="secondary">{instance.type}</Badge>
+                </div>
+              ))}
+            </CompareRow>
+
+            <CompareRow label="Status" columns={count}>
+              {columns.map((instance) => (
+                <div key={instance.id} className="flex flex-wrap items-center gap-2">
+                  {instance.status ? (
+                    <Badge
+                      variant="outline"
+                      className={
+                        instance.status === 'Public'
+                          ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                          : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+                      }
+                    >
+                      {instance.status === 'Private' && <Lock className="h-3 w-3 mr-1" />}
+                      {instance.status}
+                    </Badge>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                  {instance.isShowcase && (
+                    <Badge variant="default" className="bg-purple-600 hover:bg-purple-700">Showcase</Badge>
+                  )}
+                </div>
+              ))}
+            </CompareRow>
+
+            <CompareRow label="Units" columns={count}>
+              {columns.map((instance) => {
+                const stats = getUnitStats(instance);
+                return (
+                  <div key={instance.id} className="min-w-0">
+                    {stats ? <UnitAvailabilityBar stats={stats} /> : <span className="text-sm text-muted-foreground">No unit data</span>}
+                  </div>
+                );
+              })}
+            </CompareRow>
+
+            <CompareRow label={`Features (${features.length})`} columns={count}>
+              {columns.map((instance) => (
+                <div key={instance.id} className="text-sm text-muted-foreground">
+                  {instance.features.length} {instance.features.length === 1 ? 'feature' : 'features'}
+                </div>
+              ))}
+            </CompareRow>
+            {features.map(({ feature, present }) => (
+              <CompareRow key={feature} label={<FeatureChip name={feature} size="sm" />} columns={count}>
+                {present.map((has, column) => (
+                  <div key={columns[column].id} title={has ? 'Included' : 'Not included'}>
+                    {has ? <Check className="h-4 w-4 text-green-400" /> : <Minus className="h-4 w-4 text-white/30" />}
+                  </div>
+                ))}
+              </CompareRow>
+            ))}
+
+            <CompareRow label="" columns={count}>
+              {columns.map((instance) => (
+                <div key={instance.id}>
+                  {canLaunchInstance(instance, rolePolicy) ? (
+                    <Button
+                      size="sm"
+                      className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white"
+                      onClick={() => launcher.launch(instance)}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Open project
+                    </Button>
+                  ) : instance.link ? (
+                    <Button size="sm" variant="outline" disabled title="Launching private projects is not available for your role">
+                      <Lock className="h-4 w-4 mr-2" />
+                      Private project
+                    </Button>
+                  ) : null}
+                </div>
+              ))}
+            </CompareRow>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { DEFAULT_CATALOG_FILTERS, INSTANCE_TYPES, loadCatalog, selectFeatureCounts } from '@/app/lib/catalog';
+import { featureSlug, getFeatureTypes, listFeatures } from '@/app/lib/features';
+import { filtersToSearchParams } from '@/app/lib/filter-url';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance, ExploreInstanceType } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+const EXAMPLE_PROJECTS = 3;
+
+// Showcase projects make the best examples
+function selectExamples(instances: CatalogInstance[], type: ExploreInstanceType, feature: string): CatalogInstance[] {
+  return instances
+    .filter((instance) => instance.type === type && instance.features.includes(feature))
+    .sort((a, b) => Number(b.isShowcase) - Number(a.isShowcase))
+    .slice(0, EXAMPLE_PROJECTS);
+}
+
+export default function FeatureGlossaryPage() {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const rolePolicy = useRolePolicy();
+
+  useEffect(() => {
+    loadCatalog(getBasePath())
+      .then((catalog) => setInstances(catalog.instances))
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'));
+  }, []);
+
+  const visibleInstances = useMemo(() => selectVisibleInstances(instances, rolePolicy), [instances, rolePolicy]);
+
+  // Features in the catalog that nobody has described yet
+  const unconfigured = useMemo(() => {
+    const configured = new Set(listFeatures().map((feature) => feature.name));
+    return Array.from(selectFeatureCounts(visibleInstances).keys()).filter((feature) => !configured.has(feature)).sort();
+  }, [visibleInstances]);
+
+  const filterLink = (type: ExploreInstanceType, feature: string) =>
+    `/instances?${filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, type, includedFeatures: [feature] })}`;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-5xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <h1 className="text-4xl font-bold mb-2">Features</h1>
+        <p className="text-muted-foreground mb-8">What each feature does, with projects to show it in</p>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {INSTANCE_TYPES.map((type) => {
+          const counts = selectFeatureCounts(visibleInstances.filter((instance) => instance.type === type));
+          return (
+            <section key={type} className="mb-10">
+              <h2 className="text-2xl font-semibold mb-4">{type}</h2>
+              <div className="space-y-4">
+                {listFeatures(type).map((feature) => {
+                  const examples = selectExamples(visibleInstances, type, feature.name);
+                  const count = counts.get(feature.name) ?? 0;
+                  return (
+                    <Card
+                      key={feature.name}
+                      // Features configured for both types link to their first section
+                      id={getFeatureTypes(feature.name)[0] === type ? featureSlug(feature.name) : undefined}
+                      className="scroll-mt-8"
+                      style={{ backgroundColor: 'transparent' }}
+                    >
+                      <CardHeader>
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <CardTitle>
+                            <FeatureChip name={feature.name} type={type} title="" />
+                          </CardTitle>
+                          <CardDescription>
+                            {count > 0 ? (
+                              <Link href={filterLink(type, feature.name)} className="hover:underline">
+                                {count} {count === 1 ? 'project' : 'projects'}
+                              </Link>
+                            ) : (
+                              'No projects yet'
+                            )}
+                          </CardDescription>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm mb-4">{feature.description ?? 'No description yet.'}</p>
+                        {examples.length > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            See it in{' '}
+                            {examples.map((instance, index) => (
+                              <React.Fragment key={instance.id}>
+                                {index > 0 && (index === examples.length - 1 ? ' and ' : ', ')}
+                                <Link href={`/instances/${instance.id}`} className="text-white hover:underline">
+                                  {instance.name}
+                                </Link>
+                              </React.Fragment>
+                            ))}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+
+        {unconfigured.length > 0 && (
+          <section className="mb-10">
+            <h2 className="text-2xl font-semibold mb-2">Other features</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Used in the catalog but not described in features.config.json yet
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {unconfigured.map((feature) => (
+                <span key={feature} id={featureSlug(feature)}>
+                  <FeatureChip name={feature} />
+                </span>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
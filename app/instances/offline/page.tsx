@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, HardDrive, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useOfflineProjects } from '@/app/components/offline';
+import {
+  formatBytes,
+  getStorageEstimate,
+  requestPersistentStorage,
+  unpinAllProjects,
+} from '@/app/lib/offline';
+
+export default function OfflineStoragePage() {
+  const offline = useOfflineProjects();
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+
+  const projects = Object.values(offline.pinned).sort((a, b) => b.pinnedAt - a.pinnedAt);
+  const pinnedBytes = projects.reduce((sum, project) => sum + project.bytes, 0);
+
+  useEffect(() => {
+    getStorageEstimate().then(setEstimate);
+    navigator.storage?.persisted?.().then(setPersisted);
+  }, [offline.pinned]);
+
+  const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-4xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <h1 className="text-4xl font-bold mb-2">Offline storage</h1>
+        <p className="text-muted-foreground mb-8">
+          Projects made available offline can be demoed without a connection. Use &ldquo;Make available offline&rdquo; on a project page to add one.
+        </p>
+
+        {!offline.supported && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>This browser doesn&apos;t support offline storage.</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="mb-6" style={{ backgroundColor: 'transparent' }}>
+          <CardHeader>
+            <CardTitle className="text-lg">Storage usage</CardTitle>
+            <CardDescription>
+              {formatBytes(pinnedBytes)} used by {projects.length} offline {projects.length === 1 ? 'project' : 'projects'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {estimate && (
+              <>
+                <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden mb-2">
+                  <div className="h-full bg-[#8027F4]" style={{ width: `${usagePercent}%` }} />
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} available to this site
+                </p>
+              </>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              {persisted === false && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Ask the browser not to clear offline projects when storage runs low"
+                  onClick={async () => setPersisted(await requestPersistentStorage())}
+                >
+                  <HardDrive className="h-4 w-4 mr-2" />
+                  Keep offline data
+                </Button>
+              )}
+              {persisted && <Badge variant="secondary">Protected from automatic cleanup</Badge>}
+              {projects.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                  onClick={() => unpinAllProjects()}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove all
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {projects.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No projects are available offline yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {projects.map((project) => (
+              <div
+                key={project.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-white/10 px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <Link href={`/instances/${project.id}`} className="font-medium hover:underline truncate block">
+                    {project.name}
+                  </Link>
+                  <p className="text-sm text-muted-foreground">
+                    {formatBytes(project.bytes)} &middot; {project.urls.length} files &middot; saved {new Date(project.pinnedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {project.complete ? (
+                    <Badge variant="outline" className="bg-green-500/20 text-green-400 border-green-500/30">Complete</Badge>
+                  ) : (
+                    <Badge variant="outline" className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Incomplete</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Remove from offline storage"
+                    onClick={() => offline.unpin(project.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
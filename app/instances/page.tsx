@@ -1,414 +1,111 @@
 'use client';
 
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { MultiSelect } from '@/components/ui/multi-select';
-import { Play, Search, Lock, LogOut, Loader2 } from 'lucide-react';
-import { PanoramaViewer } from '@/app/components/panorama-viewer';
-
-const PLACEHOLDER_DATA_URI = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgZmlsbD0idHJhbnNwYXJlbnQiLz48L3N2Zz4=';
-
-interface ShowcaseInstance {
-  id: string;
-  uuid: string;
-  name: string;
-  client: string;
-  link: string;
-  type: 'Showroom' | 'Unit Finder';
-  features: string[];
-  image: string | null;
-  isShowcase?: boolean;
-  status?: string;
-}
-
-// Overview Animation Component for Unit Finder
-function OverviewAnimation({ projectId, basePath = '', totalDuration = 720 }: { projectId: string; basePath?: string; totalDuration?: number }) {
-  const [images, setImages] = useState<string[]>([]);
-  const [imageData, setImageData] = useState<Array<{ local: string; cdn: string; fileName: string }>>([]);
-  const [imagesLoaded, setImagesLoaded] = useState(false);
-  const [allPreloaded, setAllPreloaded] = useState(false);
-  const [isHovered, setIsHovered] = useState(false);
-  const [hasWebPAnimation, setHasWebPAnimation] = useState(false);
-  const [firstImage, setFirstImage] = useState<string | null>(null);
-  const isHoveredRef = useRef(false);
-  const imageElementRef = useRef<HTMLImageElement>(null);
-  const preloadedImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
-  const containerRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    const loadImages = async () => {
-      try {
-        const webpUrl = `${basePath}/previews/${projectId}.webp`;
-        fetch(webpUrl, { method: 'HEAD', signal: AbortSignal.timeout(800) })
-          .then(res => setHasWebPAnimation(res.ok))
-          .catch(() => setHasWebPAnimation(false));
-        
-        const jsonUrl = `${basePath}/projects/${projectId}/overview-images.json`;
-        setImagesLoaded(true);
-        
-        try {
-          const response = await fetch(jsonUrl, { signal: AbortSignal.timeout(5000) });
-          if (response?.ok) {
-            const data = await response.json();
-            const sortedData = [...data].sort((a: any, b: any) => a.index - b.index);
-            const imageDataArray = sortedData.map((item: any) => {
-              let fileExt = 'webp';
-              if (item.fileName) {
-                if (item.fileName.endsWith('.jpg') || item.fileName.endsWith('.jpeg')) {
-                  fileExt = 'jpg';
-                } else if (item.fileName.endsWith('.webp')) {
-                  fileExt = 'webp';
-                }
-              }
-              const fileName = item.fileName || `${item.texture}_LOD3.${fileExt}`;
-              const localPath = `${basePath}/projects/${projectId}/overview/${fileName}`;
-              const cdnUrl = item.url;
-              return { local: localPath, cdn: cdnUrl, fileName };
-            });
-            setImageData(imageDataArray);
-            const filteredUrls = imageDataArray
-              .map((item: any) => item.cdn || item.local)
-              .filter((url: string) => url);
-            setImages(filteredUrls);
-            if (imageDataArray.length > 0) {
-              const firstImageUrl = imageDataArray[0]?.cdn || imageDataArray[0]?.local || filteredUrls[0];
-              if (firstImageUrl) {
-                setFirstImage(firstImageUrl);
-              }
-            }
-          }
-        } catch {
-          setImagesLoaded(true);
-        }
-      } catch (error: any) {
-        setImagesLoaded(true);
-      }
-    };
-
-    loadImages();
-  }, [projectId, basePath]);
-
-  useEffect(() => {
-    if (!imagesLoaded || imageData.length === 0) return;
-
-    let loadedCount = 0;
-    const totalImages = images.length;
-    const validImages: string[] = [];
-
-    const checkAndPreloadImages = async () => {
-      const checkPromises = imageData.map(async (item: any) => {
-        try {
-          const localResponse = await fetch(item.local, { 
-            method: 'HEAD',
-            signal: AbortSignal.timeout(1000)
-          }).catch(() => null);
-          if (localResponse?.ok) {
-            validImages.push(item.local);
-            return true;
-          }
-        } catch {
-          // Local failed, try CDN
-        }
-        
-        if (item.cdn) {
-          try {
-            const cdnResponse = await fetch(item.cdn, { 
-              method: 'HEAD',
-              signal: AbortSignal.timeout(1000)
-            }).catch(() => null);
-            if (cdnResponse?.ok) {
-              validImages.push(item.cdn);
-              return true;
-            }
-          } catch {
-            // CDN also failed
-          }
-        }
-        return false;
-      });
-
-      await Promise.all(checkPromises);
-
-      validImages.forEach((url) => {
-        const img = new window.Image();
-        img.decoding = 'sync';
-        const promise = new Promise<void>((resolve) => {
-          img.onload = () => {
-            preloadedImagesRef.current.set(url, img);
-            loadedCount++;
-            if (loadedCount === validImages.length) {
-              setAllPreloaded(true);
-            }
-            resolve();
-          };
-          img.onerror = () => {
-            loadedCount++;
-            if (loadedCount === validImages.length) {
-              setAllPreloaded(true);
-            }
-            resolve();
-          };
-        });
-        img.src = url;
-      });
-    };
-
-    checkAndPreloadImages();
-  }, [images, imagesLoaded]);
-
-  useEffect(() => {
-    if (hasWebPAnimation || images.length === 0 || !allPreloaded) return;
-
-    if (!isHovered) {
-      const img = imageElementRef.current;
-      if (img && firstImage) {
-        img.src = firstImage;
-      }
-      return;
-    }
-
-    const verifiedImages = Array.from(preloadedImagesRef.current.keys());
-    
-    if (verifiedImages.length === 0) {
-      return;
-    }
-
-    const intervalTime = (totalDuration * 1000) / verifiedImages.length;
-    let frameIndex = 0;
-    const startTime = performance.now();
-    let animationId: number;
-    
-    const animate = (currentTime: number) => {
-      if (!isHoveredRef.current) {
-        return;
-      }
-      
-      const elapsed = currentTime - startTime;
-      const newFrameIndex = Math.floor((elapsed / intervalTime) % verifiedImages.length);
-      
-      if (newFrameIndex !== frameIndex) {
-        frameIndex = newFrameIndex;
-        const img = imageElementRef.current;
-        if (img && verifiedImages[frameIndex]) {
-          const preloaded = preloadedImagesRef.current.get(verifiedImages[frameIndex]);
-          if (preloaded && preloaded.complete && preloaded.naturalWidth > 0) {
-            img.src = verifiedImages[frameIndex];
-          }
-        }
-      }
-      
-      animationId = requestAnimationFrame(animate);
-    };
-    
-    animationId = requestAnimationFrame(animate);
-
-    return () => {
-      if (animationId) {
-        cancelAnimationFrame(animationId);
-      }
-    };
-  }, [images, allPreloaded, totalDuration, isHovered, hasWebPAnimation, firstImage]);
-
-  const initialImageSrc = firstImage || (imageData.length > 0 ? (imageData[0]?.cdn || imageData[0]?.local) : null) || images[0] || null;
-  const webpUrl = hasWebPAnimation ? `${basePath}/previews/${projectId}.webp` : null;
-
-  return (
-    <div
-      ref={containerRef}
-      onMouseEnter={() => {
-        setIsHovered(true);
-        isHoveredRef.current = true;
-      }}
-      onMouseLeave={() => {
-        setIsHovered(false);
-        isHoveredRef.current = false;
-      }}
-      className="w-full h-full relative overflow-hidden"
-      style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }}
-    >
-      {initialImageSrc && (
-        <img
-          ref={imageElementRef}
-          src={initialImageSrc}
-          alt="Overview"
-          onError={(e) => {
-            const target = e.target as HTMLImageElement;
-            if (!target.src.startsWith('data:') && imageData.length > 0) {
-              const currentIndex = imageData.findIndex((item: any) => 
-                item.local === target.src || item.cdn === target.src
-              );
-              
-              if (currentIndex >= 0 && imageData[currentIndex]?.cdn && target.src === imageData[currentIndex].local) {
-                target.src = imageData[currentIndex].cdn;
-                return;
-              }
-              
-              for (let i = 0; i < imageData.length; i++) {
-                if (imageData[i]?.cdn && imageData[i].cdn !== target.src) {
-                  target.src = imageData[i].cdn;
-                  return;
-                }
-              }
-              
-              if (currentIndex >= 0 && currentIndex < imageData.length - 1) {
-                const nextItem = imageData[currentIndex + 1];
-                target.src = nextItem?.cdn || nextItem?.local || images[currentIndex + 1];
-                return;
-              }
-              
-              for (let i = 0; i < imageData.length; i++) {
-                if (i !== currentIndex && imageData[i]?.local && imageData[i].local !== target.src) {
-                  target.src = imageData[i].local;
-                  return;
-                }
-              }
-            }
-            
-            target.style.opacity = '0.3';
-          }}
-          onLoad={() => {
-            const target = imageElementRef.current;
-            if (target) {
-              target.style.display = 'block';
-            }
-          }}
-          className="w-full h-full object-cover absolute inset-0"
-          style={{
-            backgroundColor: 'rgba(255, 255, 255, 0.02)',
-            imageRendering: 'auto',
-            backfaceVisibility: 'hidden',
-            transform: 'translateZ(0)',
-            willChange: 'contents',
-            WebkitBackfaceVisibility: 'hidden',
-            WebkitTransform: 'translateZ(0)',
-            opacity: isHovered && webpUrl ? 0 : 1,
-            transition: 'opacity 0.15s ease-in-out',
-            pointerEvents: 'none',
-          }}
-          loading="eager"
-          decoding="async"
-        />
-      )}
-      {webpUrl && (
-        <img
-          src={webpUrl}
-          alt="Overview Animation"
-          className="w-full h-full object-cover absolute inset-0"
-          style={{
-            backgroundColor: 'rgba(255, 255, 255, 0.02)',
-            imageRendering: 'auto',
-            backfaceVisibility: 'hidden',
-            transform: 'translateZ(0)',
-            willChange: 'auto',
-            WebkitBackfaceVisibility: 'hidden',
-            WebkitTransform: 'translateZ(0)',
-            opacity: isHovered ? 1 : 0,
-            transition: 'opacity 0.2s ease-in-out',
-            pointerEvents: 'none',
-          }}
-          loading="eager"
-          decoding="async"
-        />
-      )}
-      {!initialImageSrc && (
-        <div className="w-full h-full" style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }} />
-      )}
-    </div>
-  );
-}
-
-// Card Image Renderer - Simplified for Sales: only use preview images
-function CardImageRenderer({ instance, basePath = '', index }: { instance: ShowcaseInstance; basePath?: string; index: number }) {
-  const projectId = instance.uuid || instance.id;
-  const cardRef = useRef<HTMLDivElement>(null);
-
-  // Use preview image first, fallback to instance.image
-  const previewImageSrc = `${basePath}/previews/${projectId}.webp`;
-  const imageSrc = instance.image 
-    ? (basePath && !instance.image.startsWith(basePath) 
-        ? `${basePath}${instance.image}` 
-        : instance.image)
-    : null;
-
-  const transparentPlaceholder = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgZmlsbD0idHJhbnNwYXJlbnQiLz48L3N2Zz4=';
-
-  return (
-    <div ref={cardRef} className="w-full h-full relative" style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }}>
-      <img
-        src={previewImageSrc}
-        alt={instance.name}
-        className="w-full h-full object-cover"
-        style={{ backgroundColor: 'rgba(255, 255, 255, 0.02)' }}
-        loading={index < 3 ? 'eager' : 'lazy'}
-        decoding="async"
-        onError={(e) => {
-          const target = e.target as HTMLImageElement;
-          // Fallback to instance.image if preview fails
-          if (imageSrc && !target.src.includes(imageSrc)) {
-            target.src = imageSrc;
-            return;
-          }
-          // Final fallback to placeholder
-          if (!target.src.startsWith('data:')) {
-            target.src = transparentPlaceholder;
-            target.onerror = null;
-          }
-        }}
-      />
-    </div>
-  );
-}
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Search, LogOut, AlertCircle, Link2, Check, ArrowUp, ArrowDown, ChevronDown, ChevronRight, Film, HardDrive, WifiOff, BarChart3, BookOpen, Building2, ListMusic, MonitorPlay, QrCode, Star } from 'lucide-react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import type { CatalogInstance } from '@/app/lib/types';
+import {
+  loadCatalog,
+  filterInstances,
+  groupInstances,
+  hasActiveFilters,
+  selectClients,
+  selectFeatureOptions,
+  sortInstances,
+  DEFAULT_CATALOG_FILTERS,
+  GROUP_OPTIONS,
+  SORT_OPTIONS,
+  type CatalogFilters,
+  type CatalogIssue,
+  type CatalogView,
+  type GroupKey,
+  type SortDirection,
+  type SortKey,
+} from '@/app/lib/catalog';
+import { buildFilterUrl, filtersToSearchParams, readFiltersFromLocation, readViewFromLocation } from '@/app/lib/filter-url';
+import { FAVORITES_COLLECTION_NAME, createCollection } from '@/app/lib/collections';
+import { presentationToSearchParams } from '@/app/lib/presentation';
+import { getBasePath } from '@/app/lib/utils';
+import { useAuth, useRolePolicy } from '@/app/components/auth-provider';
+import { usePreferences } from '@/app/components/preferences';
+import { useOfflineProjects, useOnlineStatus } from '@/app/components/offline';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import { createSearchIndex } from '@/app/lib/search';
+import { loadAssetManifest, selectProjectAssets, type AssetManifest } from '@/app/lib/asset-manifest';
+import { getRecentChanges, loadCatalogChangelog, type CatalogChangelog } from '@/app/lib/changelog';
+import { UNIT_AVAILABILITY_OPTIONS, type UnitAvailability } from '@/app/lib/units';
+import { InstanceCard } from '@/app/components/instance-card';
+import { ClientLogo } from '@/app/components/client-logo';
+import { useCollections } from '@/app/components/collections';
+import { CompareTray } from '@/app/components/compare-tray';
+import { VirtualGrid } from '@/app/components/virtual-grid';
+import { WhatsNewPanel } from '@/app/components/whats-new';
+
+const getInstanceKey = (instance: CatalogInstance) => instance.id;
 
 export default function InstancesPage() {
-  const [instances, setInstances] = useState<ShowcaseInstance[]>([]);
-  const [filteredInstances, setFilteredInstances] = useState<ShowcaseInstance[]>([]);
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [filteredInstances, setFilteredInstances] = useState<CatalogInstance[]>([]);
+  const [catalogIssues, setCatalogIssues] = useState<CatalogIssue[]>([]);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  // Start as true to avoid loading screen - useEffect will redirect if not authenticated
-  const [authenticated, setAuthenticated] = useState<boolean>(true);
-  const [searchQuery, setSearchQuery] = useState<string>('');
-  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>('');
-  const [typeFilter, setTypeFilter] = useState<string>('all');
-  const [clientFilter, setClientFilter] = useState<string>('all');
-  const [includedFeatures, setIncludedFeatures] = useState<string[]>([]);
-  const [excludedFeatures, setExcludedFeatures] = useState<string[]>([]);
+  // Filters start from the query string so shared links open the same view
+  const [initialFilters] = useState<CatalogFilters>(readFiltersFromLocation);
+  const [searchQuery, setSearchQuery] = useState<string>(initialFilters.query);
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>(initialFilters.query);
+  const [typeFilter, setTypeFilter] = useState<string>(initialFilters.type);
+  const [clientFilter, setClientFilter] = useState<string>(initialFilters.client);
+  const [includedFeatures, setIncludedFeatures] = useState<string[]>(initialFilters.includedFeatures);
+  const [excludedFeatures, setExcludedFeatures] = useState<string[]>(initialFilters.excludedFeatures);
+  const [availabilityFilter, setAvailabilityFilter] = useState<UnitAvailability>(initialFilters.availability);
+  const [collectionIds, setCollectionIds] = useState<string[]>(initialFilters.ids);
+  const [collectionName, setCollectionName] = useState<string>(initialFilters.collection);
+  const [initialView] = useState<CatalogView>(readViewFromLocation);
+  const [sortKey, setSortKey] = useState<SortKey>(initialView.sort);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialView.direction);
+  const [groupBy, setGroupBy] = useState<GroupKey>(initialView.group);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [changelog, setChangelog] = useState<CatalogChangelog | null>(null);
+  // 'replace' while the state mirrors the URL (first load, back/forward), 'push' for user changes
+  const historyModeRef = useRef<'replace' | 'push'>('replace');
   const searchInputRef = useRef<HTMLInputElement>(null);
   
-  const getBasePath = () => {
-    if (typeof window === 'undefined') return '';
-    // On GitHub Pages the app runs under /explore-instances-sales
-    return window.location.pathname.startsWith('/explore-instances-sales') ? '/explore-instances-sales' : '';
-  };
-  
   const basePath = getBasePath();
+  const { signOut } = useAuth();
+  const [preferences, updatePreferences] = usePreferences();
+  const offline = useOfflineProjects();
+  const online = useOnlineStatus();
+  const rolePolicy = useRolePolicy();
+  const [savedCollections, updateCollections] = useCollections();
 
   useEffect(() => {
-    // Check authentication immediately
-    if (typeof window !== 'undefined') {
-      const isAuth = window.localStorage.getItem('sales_showcase_auth') === 'true';
-      if (!isAuth) {
-        window.location.replace(basePath + '/login');
-        return;
-      }
-    }
-
     if (typeof document !== 'undefined') {
       document.documentElement.classList.add('dark');
     }
     
     const loadInstances = async () => {
       try {
-        const response = await fetch(`${basePath}/metadata.json`);
-        if (response.ok) {
-          const data = await response.json();
-          setInstances(data);
-          setFilteredInstances(data);
-        }
+        // Loaded together so cards don't swap from the full preview to a variant after the first paint
+        const [catalog, manifest, releases] = await Promise.all([
+          loadCatalog(basePath),
+          loadAssetManifest(basePath),
+          loadCatalogChangelog(basePath),
+        ]);
+        setAssetManifest(manifest);
+        setChangelog(releases);
+        setInstances(catalog.instances);
+        setCatalogIssues(catalog.issues);
       } catch (error) {
         console.error('Failed to load instances:', error);
+        setCatalogError(error instanceof Error ? error.message : 'Failed to load instances');
       } finally {
         setLoading(false);
       }
@@ -417,6 +114,29 @@ export default function InstancesPage() {
     loadInstances();
   }, [basePath]);
 
+  useEffect(() => {
+    const applyFiltersFromUrl = () => {
+      const filters = readFiltersFromLocation();
+      historyModeRef.current = 'replace';
+      setSearchQuery(filters.query);
+      setDebouncedSearchQuery(filters.query);
+      setTypeFilter(filters.type);
+      setClientFilter(filters.client);
+      setIncludedFeatures(filters.includedFeatures);
+      setExcludedFeatures(filters.excludedFeatures);
+      setAvailabilityFilter(filters.availability);
+      setCollectionIds(filters.ids);
+      setCollectionName(filters.collection);
+      const view = readViewFromLocation();
+      setSortKey(view.sort);
+      setSortDirection(view.direction);
+      setGroupBy(view.group);
+    };
+
+    window.addEventListener('popstate', applyFiltersFromUrl);
+    return () => window.removeEventListener('popstate', applyFiltersFromUrl);
+  }, []);
+
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchQuery(searchQuery);
@@ -424,82 +144,82 @@ export default function InstancesPage() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
-  useEffect(() => {
-    if (!loading && searchInputRef.current) {
-      searchInputRef.current.focus();
-    }
-  }, [loading]);
+  // Private and hidden instances are only listed for roles allowed to see them
+  const visibleInstances = useMemo(() => selectVisibleInstances(instances, rolePolicy), [instances, rolePolicy]);
 
-  useEffect(() => {
-    let filtered = [...instances];
+  const visibleIds = useMemo(() => new Set(visibleInstances.map((instance) => instance.id)), [visibleInstances]);
 
-    if (typeFilter !== 'all') {
-      filtered = filtered.filter(instance => instance.type === typeFilter);
-    }
+  const recentChanges = useMemo(() => getRecentChanges(changelog), [changelog]);
 
-    if (clientFilter !== 'all') {
-      filtered = filtered.filter(instance => instance.client === clientFilter);
-    }
+  const activeFilters = useMemo<CatalogFilters>(() => ({
+    query: debouncedSearchQuery,
+    type: typeFilter,
+    client: clientFilter,
+    includedFeatures,
+    excludedFeatures,
+    availability: availabilityFilter,
+    ids: collectionIds,
+    collection: collectionName,
+  }), [debouncedSearchQuery, typeFilter, clientFilter, includedFeatures, excludedFeatures, availabilityFilter, collectionIds, collectionName]);
 
-    if (includedFeatures.length > 0) {
-      filtered = filtered.filter(instance => 
-        includedFeatures.every(feature => instance.features.includes(feature))
-      );
-    }
+  const activeView = useMemo<CatalogView>(() => ({
+    sort: sortKey,
+    direction: sortDirection,
+    group: groupBy,
+  }), [sortKey, sortDirection, groupBy]);
 
-    if (excludedFeatures.length > 0) {
-      filtered = filtered.filter(instance => 
-        !excludedFeatures.some(feature => instance.features.includes(feature))
-      );
+  // Keep the query string in sync so the current view can be shared and back/forward restore it
+  useEffect(() => {
+    const url = buildFilterUrl(activeFilters, activeView);
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      if (historyModeRef.current === 'push') {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
     }
+    historyModeRef.current = 'push';
+    setLinkCopied(false);
+  }, [activeFilters, activeView]);
 
-    if (debouncedSearchQuery.trim()) {
-      const query = debouncedSearchQuery.toLowerCase().trim();
-      filtered = filtered.filter(instance => 
-        instance.name?.toLowerCase().includes(query) ||
-        instance.client?.toLowerCase().includes(query) ||
-        instance.id?.toLowerCase().includes(query) ||
-        instance.uuid?.toLowerCase().includes(query)
-      );
+  useEffect(() => {
+    if (!loading && searchInputRef.current) {
+      searchInputRef.current.focus();
     }
+  }, [loading]);
 
-    setFilteredInstances(filtered);
-  }, [instances, typeFilter, clientFilter, includedFeatures, excludedFeatures, debouncedSearchQuery]);
+  const searchIndex = useMemo(() => createSearchIndex(visibleInstances), [visibleInstances]);
 
-  const clients = useMemo(() => {
-    const uniqueClients = Array.from(new Set(instances.map(i => i.client).filter(Boolean)));
-    return uniqueClients.sort();
-  }, [instances]);
+  const searchResults = useMemo(() => searchIndex.search(debouncedSearchQuery), [searchIndex, debouncedSearchQuery]);
 
-  const featureOptions = useMemo(() => {
-    if (!instances || instances.length === 0) {
-      return [];
+  useEffect(() => {
+    const matching = filterInstances(visibleInstances, activeFilters);
+    if (!searchResults) {
+      setFilteredInstances(matching);
+      return;
     }
-    
-    const featureSet = new Set<string>();
-    instances.forEach(instance => {
-      if (instance.features && Array.isArray(instance.features) && instance.features.length > 0) {
-        instance.features.forEach(feature => {
-          if (feature && typeof feature === 'string' && feature.trim().length > 0) {
-            featureSet.add(feature.trim());
-          }
-        });
-      }
-    });
+    // Search results come ranked, best match first
+    const allowed = new Set(matching.map(instance => instance.id));
+    setFilteredInstances(searchResults.hits.map(hit => hit.instance).filter(instance => allowed.has(instance.id)));
+  }, [visibleInstances, activeFilters, searchResults]);
+
+  const groups = useMemo(
+    () => groupInstances(sortInstances(filteredInstances, sortKey, sortDirection), groupBy),
+    [filteredInstances, sortKey, sortDirection, groupBy]
+  );
 
-    if (featureSet.size === 0) {
-      return [];
-    }
+  const clients = useMemo(() => selectClients(visibleInstances), [visibleInstances]);
+
+  const featureOptions = useMemo(() => selectFeatureOptions(visibleInstances, typeFilter), [visibleInstances, typeFilter]);
 
-    return Array.from(featureSet)
-      .sort((a, b) => a.localeCompare(b))
-      .map(feature => {
-        const count = instances.filter(i => 
-          i.features && Array.isArray(i.features) && i.features.includes(feature)
-        ).length;
-        return { value: feature, label: `${feature} (${count})` };
-      });
-  }, [instances]);
+  // A shared link may list projects that aren't saved here yet
+  const collectionSaved = (collectionName === FAVORITES_COLLECTION_NAME && collectionIds.join(',') === savedCollections.favorites.join(','))
+    || savedCollections.collections.some(
+      (collection) => collection.name === collectionName && collection.instanceIds.join(',') === collectionIds.join(',')
+    );
+  const collectionMissing = collectionIds.filter((id) => !visibleIds.has(id)).length;
+
+  const droppedRecords = catalogIssues.filter(issue => issue.severity === 'error').length;
 
   // Don't render until instances are loaded to prevent double render
   if (loading && instances.length === 0) {
@@ -514,20 +234,139 @@ export default function InstancesPage() {
             <h1 className="text-4xl font-bold mb-2">Explore Instances</h1>
             <p className="text-muted-foreground">Browse all available instances</p>
           </div>
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="border-white/10 hover:bg-white/5 text-white/60"
-            onClick={() => {
-              window.localStorage.removeItem('sales_showcase_auth');
-              window.location.replace(basePath + '/login');
-            }}
-          >
-            <LogOut className="h-4 w-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className={preferences.hoverAnimations
+                ? 'border-[#8027F4]/40 bg-[#8027F4]/10 hover:bg-[#8027F4]/20 text-white'
+                : 'border-white/10 hover:bg-white/5 text-white/60'}
+              aria-pressed={preferences.hoverAnimations}
+              title="Play the overview animation when hovering a card"
+              onClick={() => updatePreferences({ hoverAnimations: !preferences.hoverAnimations })}
+            >
+              <Film className="h-4 w-4 mr-2" />
+              Hover previews {preferences.hoverAnimations ? 'on' : 'off'}
+            </Button>
+            <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+              <Link href="/instances/collections">
+                <ListMusic className="h-4 w-4 mr-2" />
+                Collections
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+              <Link href="/clients">
+                <Building2 className="h-4 w-4 mr-2" />
+                Clients
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+              <Link href="/instances/features">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Features
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+              <Link href="/instances/units">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Units
+              </Link>
+            </Button>
+            {offline.supported && (
+              <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+                <Link href="/instances/offline">
+                  <HardDrive className="h-4 w-4 mr-2" />
+                  Offline ({Object.keys(offline.pinned).length})
+                </Link>
+              </Button>
+            )}
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="border-white/10 hover:bg-white/5 text-white/60"
+              onClick={() => {
+                signOut();
+              }}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
 
+        {!online && (
+          <Alert className="mb-6 bg-[#8027F4]/10 border-[#8027F4]/30 text-white/80">
+            <WifiOff className="h-4 w-4" />
+            <AlertDescription>
+              You are offline. Instances marked with <HardDrive className="inline h-3 w-3 mx-1" /> are fully available; others may be missing images.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {catalogError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{catalogError}</AlertDescription>
+          </Alert>
+        )}
+
+        {droppedRecords > 0 && (
+          <Alert className="mb-6 bg-yellow-500/10 border-yellow-500/20 text-yellow-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {droppedRecords} malformed {droppedRecords === 1 ? 'record was' : 'records were'} skipped in metadata.json. See the browser console for details.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <WhatsNewPanel changelog={changelog} rolePolicy={rolePolicy} instanceIds={visibleIds} />
+
+        {collectionIds.length > 0 && (
+          <Alert className="mb-6 bg-[#8027F4]/10 border-[#8027F4]/30 text-white/80">
+            <ListMusic className="h-4 w-4" />
+            <AlertDescription className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              <span>
+                Showing {collectionName ? <strong className="text-white">{collectionName}</strong> : 'a selection of'}{' '}
+                ({collectionIds.length - collectionMissing} {collectionIds.length - collectionMissing === 1 ? 'project' : 'projects'}
+                {collectionMissing > 0 && `, ${collectionMissing} not available for your role`})
+              </span>
+              <Button asChild size="sm" className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white">
+                <Link href={`/instances/present?${presentationToSearchParams({ ids: filteredInstances.map((instance) => instance.id), title: collectionName, start: 0, autoAdvance: 0 })}`}>
+                  <MonitorPlay className="h-4 w-4 mr-2" />
+                  Present
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/80">
+                <Link href={`/instances/qr-sheet?${filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, ids: filteredInstances.map((instance) => instance.id), collection: collectionName })}`}>
+                  <QrCode className="h-4 w-4 mr-2" />
+                  QR sheet
+                </Link>
+              </Button>
+              {!collectionSaved && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-white/10 hover:bg-white/5 text-white/80"
+                  onClick={() => updateCollections((current) => createCollection(current, collectionName || 'Shared collection', collectionIds))}
+                >
+                  Save to my collections
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground"
+                onClick={() => {
+                  setCollectionIds([]);
+                  setCollectionName('');
+                }}
+              >
+                Show all instances
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="flex flex-wrap gap-4 mb-6 items-center">
           <div className="flex items-center gap-2 relative">
             <Search className="absolute left-3 h-4 w-4 text-muted-foreground pointer-events-none" />
@@ -535,6 +374,7 @@ export default function InstancesPage() {
               ref={searchInputRef}
               type="text"
               placeholder="Search instances..."
+              title='Search name, client, link, features, type and description. Scope with client:, feature:, type:, name:, slug: - e.g. client:JM feature:"Sun Path"'
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-[250px] pl-9"
@@ -566,7 +406,10 @@ export default function InstancesPage() {
                 <SelectItem value="all">All Clients</SelectItem>
                 {clients.map((client) => (
                   <SelectItem key={client} value={client || ''}>
-                    {client}
+                    <span className="flex items-center gap-2">
+                      <ClientLogo name={client} size="xs" />
+                      {client}
+                    </span>
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -599,7 +442,48 @@ export default function InstancesPage() {
             </div>
           )}
 
-          {(typeFilter !== 'all' || clientFilter !== 'all' || includedFeatures.length > 0 || excludedFeatures.length > 0 || searchQuery) && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Units:</span>
+            <Select value={availabilityFilter} onValueChange={(value) => setAvailabilityFilter(value as UnitAvailability)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All" />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_AVAILABILITY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {savedCollections.favorites.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-white/10 hover:bg-white/5 text-white/60"
+              title="Show only starred instances"
+              onClick={() => {
+                setCollectionIds(savedCollections.favorites);
+                setCollectionName(FAVORITES_COLLECTION_NAME);
+              }}
+            >
+              <Star className="h-4 w-4 mr-2 fill-yellow-400 text-yellow-400" />
+              Favorites ({savedCollections.favorites.length})
+            </Button>
+          )}
+
+          {hasActiveFilters({
+            query: searchQuery,
+            type: typeFilter,
+            client: clientFilter,
+            includedFeatures,
+            excludedFeatures,
+            availability: availabilityFilter,
+            ids: collectionIds,
+            collection: collectionName,
+          }) && (
             <Button 
               variant="outline" 
               size="sm"
@@ -608,6 +492,9 @@ export default function InstancesPage() {
                 setClientFilter('all');
                 setIncludedFeatures([]);
                 setExcludedFeatures([]);
+                setAvailabilityFilter('all');
+                setCollectionIds([]);
+                setCollectionName('');
                 setSearchQuery('');
               }}
             >
@@ -615,81 +502,145 @@ export default function InstancesPage() {
             </Button>
           )}
 
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground"
+            title="Copy a link to this filtered view"
+            onClick={async () => {
+              try {
+                await navigator.clipboard.writeText(window.location.href);
+                setLinkCopied(true);
+              } catch (error) {
+                console.error('Failed to copy link:', error);
+              }
+            }}
+          >
+            {linkCopied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+            {linkCopied ? 'Link copied' : 'Copy link'}
+          </Button>
+
           <div className="ml-auto text-sm text-muted-foreground">
-            Showing {filteredInstances.length} of {instances.length} instances
+            Showing {filteredInstances.length} of {visibleInstances.length} instances
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-6">
-          {filteredInstances.map((instance, index) => (
-            <Card 
-              key={instance.id} 
-              className="overflow-hidden hover:shadow-lg transition-shadow"
-              style={{ backgroundColor: 'transparent' }}
+        <div className="flex flex-wrap gap-4 mb-6 items-center">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Sort:</span>
+            <Select
+              value={sortKey}
+              onValueChange={(value) => {
+                const option = SORT_OPTIONS.find(candidate => candidate.value === value);
+                setSortKey(value as SortKey);
+                setSortDirection(option?.defaultDirection ?? 'asc');
+              }}
             >
-              <div className="aspect-video relative overflow-hidden" style={{ backgroundColor: 'transparent' }}>
-                <CardImageRenderer instance={instance} basePath={basePath} index={index} />
-              </div>
-              <CardHeader>
-                <div className="flex items-center justify-between gap-2 mb-2">
-                  {instance.client && (
-                    <CardDescription className="mb-0">{instance.client}</CardDescription>
-                  )}
-                  <div className="flex items-center gap-2 ml-auto">
-                    {instance.type && (
-                      <Badge variant="secondary">
-                        {instance.type}
-                      </Badge>
-                    )}
-                    {instance.isShowcase && (
-                      <Badge variant="default" className="bg-purple-600 hover:bg-purple-700">
-                        Showcase
-                      </Badge>
-                    )}
-                    {instance.status && (
-                      <Badge 
-                        variant="outline"
-                        className={
-                          instance.status === 'Public'
-                            ? 'bg-green-500/20 text-green-400 border-green-500/30'
-                            : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
-                        }
-                      >
-                        {instance.status}
-                      </Badge>
-                    )}
-                  </div>
-                </div>
-                <CardTitle className="text-lg truncate mb-2" style={{ maxWidth: '100%' }}>
-                  {instance.name}
-                </CardTitle>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-8 w-8 p-0"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      if (instance.link) {
-                        window.open(instance.link, '_blank', 'noopener,noreferrer');
-                      }
-                    }}
-                    title="Open project"
-                  >
-                    <Play className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardHeader>
-            </Card>
-          ))}
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Default" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.value === 'default' && debouncedSearchQuery.trim() ? 'Best match' : option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {sortKey !== 'default' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-10 w-10 p-0"
+                title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+                onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+              >
+                {sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+              </Button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Group:</span>
+            <Select
+              value={groupBy}
+              onValueChange={(value) => {
+                setGroupBy(value as GroupKey);
+                setCollapsedGroups(new Set());
+              }}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="No grouping" />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        {groups.map((group) => {
+          const collapsed = collapsedGroups.has(group.key);
+          const grid = (
+            <VirtualGrid
+              items={group.instances}
+              getKey={getInstanceKey}
+              renderItem={(instance, index) => (
+                <InstanceCard
+                  instance={instance}
+                  basePath={basePath}
+                  index={index}
+                  rolePolicy={rolePolicy}
+                  searchHit={searchResults?.byId.get(instance.id)}
+                  hoverAnimation={preferences.hoverAnimations}
+                  availableOffline={offline.pinned[instance.id]?.complete ?? false}
+                  assets={selectProjectAssets(assetManifest, instance.uuid)}
+                  recentChange={recentChanges.get(instance.id)}
+                />
+              )}
+            />
+          );
+
+          if (groupBy === 'none') {
+            return <React.Fragment key={group.key}>{grid}</React.Fragment>;
+          }
+
+          return (
+            <section key={group.key} className="mb-8">
+              <button
+                type="button"
+                className="flex items-center gap-2 mb-4 text-lg font-semibold hover:text-white/80"
+                aria-expanded={!collapsed}
+                onClick={() => {
+                  const next = new Set(collapsedGroups);
+                  if (collapsed) {
+                    next.delete(group.key);
+                  } else {
+                    next.add(group.key);
+                  }
+                  setCollapsedGroups(next);
+                }}
+              >
+                {collapsed ? <ChevronRight className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+                {group.label}
+                <Badge variant="secondary">{group.instances.length}</Badge>
+              </button>
+              {!collapsed && grid}
+            </section>
+          );
+        })}
+
         {!loading && filteredInstances.length === 0 && (
           <div className="text-center py-12">
             <p className="text-muted-foreground">No instances found</p>
           </div>
         )}
       </div>
+      <CompareTray instances={visibleInstances} />
     </div>
   );
 }
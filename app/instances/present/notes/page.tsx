@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, EyeOff, Rotate3d } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { ClientLogo } from '@/app/components/client-logo';
+import { FeatureChip } from '@/app/components/feature-chip';
+import { PresentationSlide } from '@/app/components/presentation-slide';
+import { UnitAvailabilityBar } from '@/app/components/unit-availability';
+import { loadAssetManifest, selectProjectAssets, type AssetManifest } from '@/app/lib/asset-manifest';
+import { loadCatalog } from '@/app/lib/catalog';
+import {
+  formatDuration,
+  getSlideAction,
+  openPresentationChannel,
+  type PresentationMessage,
+  type PresentationState,
+  type SlideAction,
+} from '@/app/lib/presentation';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getUnitStats } from '@/app/lib/units';
+import { getBasePath } from '@/app/lib/utils';
+
+/**
+ * Speaker notes: opened from a presentation in a second window, usually on the laptop screen
+ */
+export default function SpeakerNotesPage() {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [state, setState] = useState<PresentationState | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const rolePolicy = useRolePolicy();
+  const basePath = getBasePath();
+
+  useEffect(() => {
+    document.title = 'Speaker notes - Sales Showcase';
+    Promise.all([loadCatalog(basePath), loadAssetManifest(basePath)])
+      .then(([catalog, manifest]) => {
+        setInstances(catalog.instances);
+        setAssetManifest(manifest);
+      })
+      .catch((error) => console.error('[Presentation] Failed to load instances:', error));
+  }, [basePath]);
+
+  useEffect(() => {
+    const channel = openPresentationChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<PresentationMessage>) => {
+      if (event.data.type === 'state') setState(event.data.state);
+    };
+    channel.postMessage({ type: 'sync' } satisfies PresentationMessage);
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const send = (action: SlideAction) => channelRef.current?.postMessage({ type: 'action', action } satisfies PresentationMessage);
+
+  // The clicker keeps working while this window has focus
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = getSlideAction(event);
+      if (!action || action === 'notes' || action === 'fullscreen' || action === 'exit') return;
+      event.preventDefault();
+      channelRef.current?.postMessage({ type: 'action', action } satisfies PresentationMessage);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const byId = useMemo(() => new Map(instances.map((instance) => [instance.id, instance])), [instances]);
+  const current = state ? byId.get(state.ids[state.index]) : undefined;
+  const next = state ? byId.get(state.ids[state.index + 1]) : undefined;
+
+  if (!state || !current) {
+    return (
+      <div className="min-h-screen w-full bg-background text-foreground flex items-center justify-center">
+        <p className="text-muted-foreground">
+          {typeof BroadcastChannel === 'undefined'
+            ? 'Speaker notes are not supported in this browser'
+            : 'Waiting for the presentation... Keep the presentation open in another window.'}
+        </p>
+      </div>
+    );
+  }
+
+  const unitStats = getUnitStats(current);
+  const featuresBehindLogin = rolePolicy.showFeaturesBehindLogin ? current.featuresBehindLogin ?? [] : [];
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full px-6 py-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <p className="text-sm text-muted-foreground">{state.title || 'Presentation'}</p>
+            <p className="text-2xl font-semibold tabular-nums">
+              Slide {state.index + 1} of {state.ids.length}
+              {state.blank && <Badge variant="outline" className="ml-3 align-middle">Screen blanked</Badge>}
+            </p>
+          </div>
+          <div className="flex items-center gap-6 tabular-nums">
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground">Elapsed</p>
+              <p className="text-3xl font-semibold">{formatDuration(now - state.startedAt)}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground">
+                {state.autoAdvance > 0 ? `This slide (auto every ${state.autoAdvance}s)` : 'This slide'}
+              </p>
+              <p className="text-3xl font-semibold">{formatDuration(now - state.slideStartedAt)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <Button variant="outline" size="lg" disabled={state.index === 0} onClick={() => send('previous')}>
+            <ChevronLeft className="h-5 w-5 mr-2" />
+            Previous
+          </Button>
+          <Button size="lg" className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white" disabled={state.index === state.ids.length - 1} onClick={() => send('next')}>
+            Next
+            <ChevronRight className="h-5 w-5 ml-2" />
+          </Button>
+          <Button variant="outline" size="lg" onClick={() => send('blank')}>
+            <EyeOff className="h-5 w-5 mr-2" />
+            {state.blank ? 'Show slide' : 'Blank screen'}
+          </Button>
+          <Button variant="outline" size="lg" onClick={() => send('panorama')}>
+            <Rotate3d className="h-5 w-5 mr-2" />
+            360° view
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <div className="flex items-center gap-3 mb-2">
+              {current.client && <ClientLogo name={current.client} size="sm" />}
+              <span className="text-muted-foreground">{current.client}</span>
+            </div>
+            <h1 className="text-4xl font-bold mb-3">{current.name}</h1>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <Badge variant="secondary">{current.type}</Badge>
+              {current.status && <Badge variant="outline">{current.status}</Badge>}
+              {current.isShowcase && <Badge className="bg-purple-600 hover:bg-purple-700">Showcase</Badge>}
+            </div>
+            {current.description && <p className="text-lg text-white/80 mb-4 whitespace-pre-line">{current.description}</p>}
+            {unitStats && <UnitAvailabilityBar stats={unitStats} className="mb-4 max-w-xl" />}
+            {current.features.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {current.features.map((feature) => (
+                  <FeatureChip key={feature} name={feature} type={current.type} />
+                ))}
+              </div>
+            )}
+            {featuresBehindLogin.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm text-muted-foreground mb-2">Behind login</p>
+                <div className="flex flex-wrap gap-2">
+                  {featuresBehindLogin.map((feature) => (
+                    <FeatureChip key={feature} name={feature} type={current.type} locked />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">Next up</p>
+            {next ? (
+              <>
+                <div className="aspect-video rounded-lg overflow-hidden border border-white/10 mb-2">
+                  <PresentationSlide
+                    instance={next}
+                    basePath={basePath}
+                    rolePolicy={rolePolicy}
+                    assets={selectProjectAssets(assetManifest, next.uuid)}
+                    compact
+                  />
+                </div>
+                <p className="font-medium">{next.name}</p>
+                {next.client && <p className="text-sm text-muted-foreground">{next.client}</p>}
+              </>
+            ) : (
+              <p className="text-muted-foreground">Last slide</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
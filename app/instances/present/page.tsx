@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ChevronLeft, ChevronRight, Maximize, Minimize, Rotate3d, StickyNote, Timer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { PresentationSlide } from '@/app/components/presentation-slide';
+import { useProjectLauncher } from '@/app/components/project-launcher';
+import { loadAssetManifest, selectPanoramaSrc, selectProjectAssets, type AssetManifest } from '@/app/lib/asset-manifest';
+import { recordActivity } from '@/app/lib/auth';
+import { DEFAULT_CATALOG_FILTERS, loadCatalog } from '@/app/lib/catalog';
+import { filtersToSearchParams } from '@/app/lib/filter-url';
+import {
+  AUTO_ADVANCE_OPTIONS,
+  getSlideAction,
+  openPresentationChannel,
+  presentationToSearchParams,
+  readPresentationFromLocation,
+  type PresentationMessage,
+  type PresentationState,
+  type SlideAction,
+} from '@/app/lib/presentation';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+// Controls and cursor hide after this long without mouse movement
+const CONTROLS_HIDE_MS = 3000;
+
+export default function PresentationPage() {
+  const [options] = useState(readPresentationFromLocation);
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [index, setIndex] = useState(options.start);
+  const [blank, setBlank] = useState(false);
+  const [panorama, setPanorama] = useState(false);
+  const [noPanorama, setNoPanorama] = useState<Set<string>>(new Set());
+  const [autoAdvance, setAutoAdvance] = useState(options.autoAdvance);
+  const [startedAt] = useState(Date.now);
+  const [slideStartedAt, setSlideStartedAt] = useState(Date.now);
+  const [now, setNow] = useState(Date.now);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const [pointerMovedAt, setPointerMovedAt] = useState(Date.now);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const router = useRouter();
+  const rolePolicy = useRolePolicy();
+  const launcher = useProjectLauncher();
+  // A project opened from a slide covers the presentation until it is closed
+  const launched = !!launcher.current;
+  const basePath = getBasePath();
+
+  useEffect(() => {
+    Promise.all([loadCatalog(basePath), loadAssetManifest(basePath)])
+      .then(([catalog, manifest]) => {
+        setInstances(catalog.instances);
+        setAssetManifest(manifest);
+      })
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, [basePath]);
+
+  // Slides the presenter's role may show, in the order of the link
+  const slides = useMemo(() => {
+    const visible = new Map(selectVisibleInstances(instances, rolePolicy).map((instance) => [instance.id, instance]));
+    return options.ids.map((id) => visible.get(id)).filter((instance): instance is CatalogInstance => !!instance);
+  }, [instances, rolePolicy, options.ids]);
+
+  const slideIndex = Math.min(index, Math.max(slides.length - 1, 0));
+  const slide = slides[slideIndex];
+  const slideAssets = slide ? selectProjectAssets(assetManifest, slide.uuid) : null;
+  const canShowPanorama = !!slide && !noPanorama.has(slide.id) && !!selectPanoramaSrc(slide.uuid, basePath, slideAssets);
+  const exitHref = `/instances?${filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, ids: options.ids, collection: options.title })}`;
+
+  const goTo = useCallback((next: number) => {
+    setIndex(Math.max(0, Math.min(slides.length - 1, next)));
+    setSlideStartedAt(Date.now());
+    setPanorama(false);
+    setBlank(false);
+  }, [slides.length]);
+
+  const openNotes = useCallback(() => {
+    window.open(`${basePath}/instances/present/notes/`, 'sales-showcase-notes', 'popup,width=960,height=720');
+  }, [basePath]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      document.documentElement.requestFullscreen().catch((error) => console.warn('[Presentation] Full screen refused:', error));
+    }
+  }, []);
+
+  const handleAction = useCallback((action: SlideAction) => {
+    if (launched) return;
+    switch (action) {
+      case 'next':
+        goTo(slideIndex + 1);
+        break;
+      case 'previous':
+        goTo(slideIndex - 1);
+        break;
+      case 'first':
+        goTo(0);
+        break;
+      case 'last':
+        goTo(slides.length - 1);
+        break;
+      case 'blank':
+        setBlank((current) => !current);
+        break;
+      case 'fullscreen':
+        toggleFullscreen();
+        break;
+      case 'panorama':
+        if (canShowPanorama) setPanorama((current) => !current);
+        break;
+      case 'auto':
+        setAutoAdvance((current) => (current > 0 ? 0 : AUTO_ADVANCE_OPTIONS.find((seconds) => seconds > 0) ?? 0));
+        setSlideStartedAt(Date.now());
+        break;
+      case 'notes':
+        openNotes();
+        break;
+      case 'exit':
+        // The browser leaves full screen on Escape by itself
+        if (!document.fullscreenElement) router.push(exitHref);
+        break;
+    }
+  }, [launched, goTo, slideIndex, slides.length, toggleFullscreen, canShowPanorama, openNotes, router, exitHref]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = getSlideAction(event);
+      if (!action || launched) return;
+      event.preventDefault();
+      handleAction(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleAction, launched]);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // Auto-advance loops back to the first slide so a presentation can run unattended
+  useEffect(() => {
+    if (autoAdvance <= 0 || blank || panorama || launched || slides.length < 2) return;
+    const timer = setTimeout(() => {
+      recordActivity(); // An unattended presentation shouldn't sign the user out for being idle
+      goTo((slideIndex + 1) % slides.length);
+    }, Math.max(0, slideStartedAt + autoAdvance * 1000 - Date.now()));
+    return () => clearTimeout(timer);
+  }, [autoAdvance, blank, panorama, launched, slides.length, slideIndex, slideStartedAt, goTo]);
+
+  // Drives the auto-advance progress bar
+  useEffect(() => {
+    if (autoAdvance <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [autoAdvance]);
+
+  useEffect(() => {
+    if (!controlsVisible) return;
+    const timer = setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [controlsVisible, pointerMovedAt]);
+
+  // Keep the slide in the URL so a reload continues where the presentation was
+  useEffect(() => {
+    if (loading) return;
+    const search = presentationToSearchParams({ ...options, start: slideIndex, autoAdvance }).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}?${search}`);
+  }, [loading, options, slideIndex, autoAdvance]);
+
+  // Warm the cache for the next slide
+  useEffect(() => {
+    const next = slides[slideIndex + 1];
+    if (next) new Image().src = `${basePath}/previews/${next.uuid}.webp`;
+  }, [slides, slideIndex, basePath]);
+
+  const state = useMemo<PresentationState>(() => ({
+    ids: slides.map((instance) => instance.id),
+    title: options.title,
+    index: slideIndex,
+    blank,
+    autoAdvance,
+    startedAt,
+    slideStartedAt,
+  }), [slides, options.title, slideIndex, blank, autoAdvance, startedAt, slideStartedAt]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const handleActionRef = useRef(handleAction);
+  handleActionRef.current = handleAction;
+
+  useEffect(() => {
+    const channel = openPresentationChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<PresentationMessage>) => {
+      if (event.data.type === 'action') handleActionRef.current(event.data.action);
+      if (event.data.type === 'sync') channel.postMessage({ type: 'state', state: stateRef.current } satisfies PresentationMessage);
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.postMessage({ type: 'state', state } satisfies PresentationMessage);
+  }, [state]);
+
+  if (!loading && (loadError || slides.length === 0)) {
+    return (
+      <div className="min-h-screen w-full bg-background text-foreground flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">
+          {loadError ?? (options.ids.length > 0 ? 'None of these projects are available for your role' : 'Nothing to present. Open a collection and choose Present.')}
+        </p>
+        <Button asChild variant="outline">
+          <Link href="/instances/collections">Collections</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!slide) return <div className="fixed inset-0 bg-black" />;
+
+  const progress = autoAdvance > 0 ? Math.min(1, (now - slideStartedAt) / (autoAdvance * 1000)) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black text-white"
+      style={{ cursor: controlsVisible ? 'auto' : 'none' }}
+      onMouseMove={() => {
+        setControlsVisible(true);
+        setPointerMovedAt(Date.now());
+      }}
+    >
+      <PresentationSlide
+        instance={slide}
+        basePath={basePath}
+        rolePolicy={rolePolicy}
+        assets={slideAssets}
+        panorama={panorama && canShowPanorama}
+        onPanoramaUnavailable={() => {
+          setNoPanorama((current) => new Set(current).add(slide.id));
+          setPanorama(false);
+        }}
+      />
+
+      {blank && (
+        <button type="button" aria-label="Show slide" className="absolute inset-0 bg-black cursor-default" onClick={() => setBlank(false)} />
+      )}
+
+      {autoAdvance > 0 && !blank && (
+        <div className="absolute inset-x-0 bottom-0 h-1 bg-white/10">
+          <div className="h-full bg-[#8027F4]" style={{ width: `${progress * 100}%`, transition: 'width 0.25s linear' }} />
+        </div>
+      )}
+
+      <div
+        className="absolute inset-x-0 bottom-4 flex justify-center transition-opacity duration-300"
+        style={{ opacity: controlsVisible && !blank ? 1 : 0, pointerEvents: controlsVisible && !blank ? 'auto' : 'none' }}
+      >
+        <div className="flex items-center gap-1 rounded-full bg-black/70 border border-white/10 px-3 py-1.5 backdrop-blur">
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Previous (←, Page Up)" disabled={slideIndex === 0} onClick={() => handleAction('previous')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-white/80 tabular-nums px-2">
+            {slideIndex + 1} / {slides.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            title="Next (→, Page Down, Space)"
+            disabled={slideIndex === slides.length - 1}
+            onClick={() => handleAction('next')}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <div className="mx-2 h-5 w-px bg-white/10" />
+          <Timer className="h-4 w-4 text-white/60" />
+          <Select
+            value={String(autoAdvance)}
+            onValueChange={(value) => {
+              setAutoAdvance(Number(value));
+              setSlideStartedAt(Date.now());
+            }}
+          >
+            <SelectTrigger className="h-8 w-[120px] border-none bg-transparent" title="Auto-advance (A)">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_ADVANCE_OPTIONS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds > 0 ? `Every ${seconds}s` : 'Manual'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canShowPanorama && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={`h-8 w-8 p-0 ${panorama ? 'text-[#8027F4]' : ''}`}
+              title="360° view (V)"
+              aria-pressed={panorama}
+              onClick={() => handleAction('panorama')}
+            >
+              <Rotate3d className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Speaker notes (S)" onClick={openNotes}>
+            <StickyNote className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Full screen (F)" onClick={toggleFullscreen}>
+            {fullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
+          </Button>
+          <Button asChild variant="ghost" size="sm" className="h-8 w-8 p-0" title="End presentation (Esc)">
+            <Link href={exitHref}>
+              <X className="h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
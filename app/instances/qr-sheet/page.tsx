@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, Printer } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { AssetImage } from '@/app/components/asset-image';
+import { QrCodeImage, UtmFields, useQrSettings } from '@/app/components/qr-code';
+import { loadCatalog } from '@/app/lib/catalog';
+import { readFiltersFromLocation } from '@/app/lib/filter-url';
+import { buildQrLink, qrTarget } from '@/app/lib/qr';
+import { canLaunchInstance, selectVisibleInstances } from '@/app/lib/roles';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+const COLUMN_OPTIONS = [2, 3, 4];
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+};
+
+/**
+ * Printable sheet with a QR code per project, for a stand at a fair. Takes the
+ * same ids/list parameters as a collection link.
+ */
+export default function QrSheetPage() {
+  const [{ ids, collection: title }] = useState(readFiltersFromLocation);
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [columns, setColumns] = useState(3);
+  const [settings, updateSettings] = useQrSettings();
+  const rolePolicy = useRolePolicy();
+  const basePath = getBasePath();
+
+  useEffect(() => {
+    loadCatalog(basePath)
+      .then((catalog) => setInstances(catalog.instances))
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, [basePath]);
+
+  // Projects the role can't open get no code, a prospect couldn't use it anyway
+  const [printable, skipped] = useMemo(() => {
+    const visible = new Map(selectVisibleInstances(instances, rolePolicy).map((instance) => [instance.id, instance]));
+    const listed = ids.map((id) => visible.get(id)).filter((instance): instance is CatalogInstance => !!instance);
+    return [
+      listed.filter((instance) => canLaunchInstance(instance, rolePolicy)),
+      listed.filter((instance) => !canLaunchInstance(instance, rolePolicy)),
+    ];
+  }, [instances, rolePolicy, ids]);
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground print:bg-white print:text-black">
+      <div className="w-full max-w-7xl mx-auto px-6 py-8 print:max-w-none print:p-0">
+        <div className="print:hidden">
+          <Link
+            href="/instances/collections"
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Collections
+          </Link>
+
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-4xl font-bold mb-2">QR sheet</h1>
+              <p className="text-muted-foreground">Print the codes so visitors can open each project on their own phone</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={String(columns)} onValueChange={(value) => setColumns(Number(value))}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLUMN_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count} per row
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="bg-[#8027F4] hover:bg-[#6c1fd1] text-white" disabled={printable.length === 0} onClick={() => window.print()}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-w-md mb-6">
+            <UtmFields settings={settings} onChange={updateSettings} />
+          </div>
+
+          {loadError && (
+            <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{loadError}</AlertDescription>
+            </Alert>
+          )}
+
+          {skipped.length > 0 && (
+            <p className="text-sm text-muted-foreground mb-6">
+              Not on the sheet, since your role can&apos;t open them: {skipped.map((instance) => instance.name).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {!loading && printable.length === 0 ? (
+          <div className="text-center py-12 print:hidden">
+            <p className="text-muted-foreground mb-4">No projects to print. Open a QR sheet from one of your collections.</p>
+            <Button asChild variant="outline">
+              <Link href="/instances/collections">My collections</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            {title && <h2 className="text-2xl font-semibold mb-4 print:text-black">{title}</h2>}
+            <div className={`grid ${GRID_COLUMNS[columns]} gap-4`}>
+              {printable.map((instance) => {
+                const link = buildQrLink(qrTarget(instance), settings);
+                return (
+                  <div
+                    key={instance.id}
+                    className="break-inside-avoid rounded-lg border border-white/10 overflow-hidden print:border-black/20"
+                  >
+                    <div className="aspect-video">
+                      <AssetImage
+                        projectId={instance.uuid}
+                        sources={[`${basePath}/previews/${instance.uuid}.webp`, instance.image]}
+                        kind="preview"
+                        alt={instance.name}
+                        className="w-full h-full object-cover"
+                        decoding="async"
+                      />
+                    </div>
+                    <div className="p-3">
+                      <p className="font-semibold truncate">{instance.name}</p>
+                      {instance.client && <p className="text-sm text-muted-foreground truncate print:text-black/60">{instance.client}</p>}
+                      <div className="mt-3 rounded-md bg-white p-1">
+                        <QrCodeImage value={link} alt={`QR code for ${instance.name}`} className="w-full aspect-square" />
+                      </div>
+                      <p className="mt-2 text-[10px] leading-tight text-muted-foreground break-all print:text-black/60">{link}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
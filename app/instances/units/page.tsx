@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRolePolicy } from '@/app/components/auth-provider';
+import { UnitAvailabilityBar } from '@/app/components/unit-availability';
+import { DEFAULT_CATALOG_FILTERS, filterInstances, loadCatalog, selectClients } from '@/app/lib/catalog';
+import { selectVisibleInstances } from '@/app/lib/roles';
+import {
+  UNIT_AVAILABILITY_OPTIONS,
+  formatPercent,
+  getUnitStats,
+  summarizeUnits,
+  summarizeUnitsByClient,
+  type UnitAvailability,
+} from '@/app/lib/units';
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+function SummaryTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card style={{ backgroundColor: 'transparent' }}>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      {detail && <CardContent className="text-sm text-muted-foreground">{detail}</CardContent>}
+    </Card>
+  );
+}
+
+export default function UnitsDashboardPage() {
+  const [instances, setInstances] = useState<CatalogInstance[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [clientFilter, setClientFilter] = useState('all');
+  // Instances without unit data have nothing to show here, so 'no-data' isn't offered
+  const [availabilityFilter, setAvailabilityFilter] = useState<UnitAvailability>('all');
+  const rolePolicy = useRolePolicy();
+
+  useEffect(() => {
+    loadCatalog(getBasePath())
+      .then((catalog) => setInstances(catalog.instances))
+      .catch((error) => setLoadError(error instanceof Error ? error.message : 'Failed to load instances'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const unitFinders = useMemo(
+    () => selectVisibleInstances(instances, rolePolicy).filter((instance) => instance.type === 'Unit Finder'),
+    [instances, rolePolicy]
+  );
+  const withUnits = useMemo(() => unitFinders.filter((instance) => getUnitStats(instance)), [unitFinders]);
+  const clients = useMemo(() => selectClients(withUnits), [withUnits]);
+
+  const filtered = useMemo(
+    () => filterInstances(withUnits, { ...DEFAULT_CATALOG_FILTERS, client: clientFilter, availability: availabilityFilter }),
+    [withUnits, clientFilter, availabilityFilter]
+  );
+  const summary = useMemo(() => summarizeUnits(filtered), [filtered]);
+  const byClient = useMemo(() => summarizeUnitsByClient(filtered), [filtered]);
+  const rows = useMemo(
+    () => [...filtered].sort((a, b) => (getUnitStats(b)?.available ?? 0) - (getUnitStats(a)?.available ?? 0)),
+    [filtered]
+  );
+
+  const gridLink = `/instances?type=${encodeURIComponent('Unit Finder')}&units=available`;
+
+  return (
+    <div className="min-h-screen w-full bg-background text-foreground">
+      <div className="w-full max-w-6xl mx-auto px-6 py-8">
+        <Link
+          href="/instances"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All instances
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Unit availability</h1>
+            <p className="text-muted-foreground">
+              Sold and available units across Unit Finder projects, from the latest API scan
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm" className="border-white/10 hover:bg-white/5 text-white/60">
+            <Link href={gridLink}>Browse projects with available units</Link>
+          </Button>
+        </div>
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6 bg-red-500/10 border-red-500/20 text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!loading && !loadError && withUnits.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No unit counts in the catalog yet</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4 mb-6 items-center">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Client:</span>
+                <Select value={clientFilter} onValueChange={setClientFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="All Clients" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Clients</SelectItem>
+                    {clients.map((client) => (
+                      <SelectItem key={client} value={client}>
+                        {client}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Units:</span>
+                <Select value={availabilityFilter} onValueChange={(value) => setAvailabilityFilter(value as UnitAvailability)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="All" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNIT_AVAILABILITY_OPTIONS.filter((option) => option.value !== 'no-data').map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="ml-auto text-sm text-muted-foreground">
+                {unitFinders.length - withUnits.length > 0 &&
+                  `${unitFinders.length - withUnits.length} Unit Finder projects have no unit data`}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              <SummaryTile label="Projects" value={String(summary.instances)} detail={`${byClient.length} clients`} />
+              <SummaryTile label="Total units" value={String(summary.total)} />
+              <SummaryTile label="Available" value={String(summary.available)} detail={summary.other > 0 ? `${summary.other} reserved or unreleased` : undefined} />
+              <SummaryTile label="Sell-through" value={formatPercent(summary.sellThrough)} detail={`${summary.sold} sold`} />
+            </div>
+
+            <Card className="mb-8" style={{ backgroundColor: 'transparent' }}>
+              <CardHeader>
+                <CardTitle className="text-lg">By client</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {byClient.map((client) => (
+                  <button
+                    key={client.client}
+                    type="button"
+                    className="block w-full text-left rounded-md hover:bg-white/5 p-2 -m-2"
+                    title={`Show only ${client.client}`}
+                    onClick={() => setClientFilter(client.client === 'No client' ? 'all' : client.client)}
+                  >
+                    <UnitAvailabilityBar
+                      stats={client}
+                      label={`${client.client} (${client.instances} ${client.instances === 1 ? 'project' : 'projects'})`}
+                    />
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card style={{ backgroundColor: 'transparent' }}>
+              <CardHeader>
+                <CardTitle className="text-lg">Projects</CardTitle>
+                <CardDescription>Most available units first</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-muted-foreground text-left">
+                    <tr className="border-b border-white/10">
+                      <th className="py-2 pr-4 font-normal">Project</th>
+                      <th className="py-2 pr-4 font-normal">Client</th>
+                      <th className="py-2 pr-4 font-normal text-right">Total</th>
+                      <th className="py-2 pr-4 font-normal text-right">Sold</th>
+                      <th className="py-2 pr-4 font-normal text-right">Available</th>
+                      <th className="py-2 pr-4 font-normal text-right">Sell-through</th>
+                      <th className="py-2 font-normal w-[160px]" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((instance) => {
+                      const stats = getUnitStats(instance);
+                      if (!stats) return null;
+                      return (
+                        <tr key={instance.id} className="border-b border-white/5 last:border-b-0">
+                          <td className="py-2 pr-4">
+                            <Link href={`/instances/${instance.id}`} className="hover:underline">
+                              {instance.name}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-4 text-muted-foreground">{instance.client || '—'}</td>
+                          <td className="py-2 pr-4 text-right">{stats.total}</td>
+                          <td className="py-2 pr-4 text-right">{stats.sold}</td>
+                          <td className="py-2 pr-4 text-right text-green-400">{stats.available}</td>
+                          <td className="py-2 pr-4 text-right">{formatPercent(stats.sellThrough)}</td>
+                          <td className="py-2">
+                            <div className="flex h-2 w-full rounded-full bg-white/10 overflow-hidden">
+                              <div className="h-full bg-green-500" style={{ width: `${(stats.available / stats.total) * 100}%` }} />
+                              <div className="h-full bg-[#8027F4]" style={{ width: `${(stats.sold / stats.total) * 100}%` }} />
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
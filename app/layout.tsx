@@ -1,5 +1,8 @@
 import './globals.css';
   import { Inter } from 'next/font/google';
+  import { AuthProvider } from '@/app/components/auth-provider';
+  import { OfflineSupport } from '@/app/components/offline';
+  import { ProjectLauncherProvider } from '@/app/components/project-launcher';
 
   const inter = Inter({ subsets: ['latin'] });
 
@@ -15,7 +18,12 @@ import './globals.css';
   }) {
     return (
       <html lang="en" className="dark">
-        <body className={inter.className}>{children}</body>
+        <body className={inter.className}>
+          <AuthProvider>
+            <ProjectLauncherProvider>{children}</ProjectLauncherProvider>
+          </AuthProvider>
+          <OfflineSupport />
+        </body>
       </html>
     );
   }
@@ -0,0 +1,83 @@
+/**
+ * Asset manifest
+ *
+ * public/assets-manifest.json is written by `npm run assets:build`
+ * (scripts/build-assets.mjs) and lists, per project, the generated preview,
+ * its resized variants and a blur placeholder. The manifest is optional: when
+ * it is missing (e.g. in development before the first build) every lookup
+ * returns null and components fall back to previews/<id>.webp.
+ */
+
+export type AssetVariantName = 'thumb' | 'card' | 'full';
+
+export interface AssetVariant {
+  name: AssetVariantName;
+  src: string; // Path under basePath
+  width: number;
+  height: number;
+}
+
+export interface ProjectAssets {
+  preview: {
+    src: string;
+    width: number;
+    height: number;
+    animated: boolean;
+    frames: number;
+  };
+  variants: AssetVariant[]; // Static, smallest first
+  placeholder: string; // Blurred data URI
+  color: string; // Dominant colour as #rrggbb
+  panorama: string | null;
+}
+
+export interface AssetManifest {
+  version: number;
+  generatedAt: string;
+  variants: AssetVariantName[];
+  projects: Record<string, ProjectAssets>;
+}
+
+const SUPPORTED_VERSION = 2;
+
+const manifestCache = new Map<string, Promise<AssetManifest | null>>();
+
+/**
+ * Fetch assets-manifest.json once per basePath. Resolves to null when it is
+ * missing or from an unsupported pipeline version.
+ */
+export function loadAssetManifest(basePath = ''): Promise<AssetManifest | null> {
+  const cached = manifestCache.get(basePath);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    try {
+      const response = await fetch(`${basePath}/assets-manifest.json`);
+      if (!response.ok) return null;
+      const manifest = (await response.json()) as AssetManifest;
+      if (manifest?.version !== SUPPORTED_VERSION || typeof manifest.projects !== 'object') {
+        console.warn(`[Assets] Ignoring assets-manifest.json with unsupported version ${manifest?.version}`);
+        return null;
+      }
+      return manifest;
+    } catch {
+      return null;
+    }
+  })();
+
+  manifestCache.set(basePath, promise);
+  return promise;
+}
+
+export function selectProjectAssets(manifest: AssetManifest | null, projectId: string): ProjectAssets | null {
+  return manifest?.projects[projectId] ?? null;
+}
+
+/**
+ * The 360° sample of a project. Without a manifest the usual location is
+ * tried; with one, only projects it lists a panorama for have one.
+ */
+export function selectPanoramaSrc(projectId: string, basePath: string, assets: ProjectAssets | null | undefined): string | null {
+  if (assets) return assets.panorama ? `${basePath}${assets.panorama}` : null;
+  return `${basePath}/projects/${projectId}/sample/sample.webp`;
+}
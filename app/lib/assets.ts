@@ -0,0 +1,277 @@
+/**
+ * Asset resolution
+ *
+ * Project assets (previews, overview frames, panoramas) can live in the static
+ * export under /projects and /previews, on the CDN, or nowhere. Every
+ * component resolves them through here so that:
+ *
+ * - the origin that worked for a project is tried first for its next asset
+ * - timeouts and network errors are retried, real misses are not, and only a
+ *   confirmed 4xx is remembered as missing
+ * - a URL known to be missing is never requested again this session
+ * - all requests share the page-wide request limit
+ *
+ * Misses are collected into a report that is logged to the console shortly
+ * after the last one and can be read with getMissingAssetReport().
+ */
+
+import { assetRequests } from '@/app/lib/request-limiter';
+
+export type AssetOrigin = 'local' | 'cdn';
+
+export type AssetKind = 'preview' | 'image' | 'overview-frame' | 'overview-index' | 'panorama';
+
+export interface MissingAsset {
+  url: string;
+  projectId: string | null;
+  kind: AssetKind;
+  reason: string;
+}
+
+export interface ResolveOptions {
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after a timeout or network error
+  crossOrigin?: '' | 'anonymous' | 'use-credentials';
+  signal?: AbortSignal; // Aborted lookups resolve to null and cache nothing
+}
+
+export const CDN_BASE_URL = 'https://cdn.plyo.site/3d-chooser';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 1;
+const RETRY_DELAY_MS = 500;
+const REPORT_DELAY_MS = 3000;
+const MISSING_STORAGE_KEY = 'sales_showcase_missing_assets';
+
+// Thrown for failures worth retrying; anything else is treated as a miss
+class TransientAssetError extends Error {}
+
+const missingAssets = new Map<string, MissingAsset>(loadMissingAssets());
+const availableAssets = new Set<string>();
+const preferredOrigins = new Map<string, AssetOrigin>();
+let reportTimer: ReturnType<typeof setTimeout> | null = null;
+
+function loadMissingAssets(): Array<[string, MissingAsset]> {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.sessionStorage.getItem(MISSING_STORAGE_KEY) ?? '[]') as MissingAsset[];
+    return stored.map((entry) => [entry.url, entry]);
+  } catch {
+    return [];
+  }
+}
+
+function persistMissingAssets() {
+  try {
+    window.sessionStorage.setItem(MISSING_STORAGE_KEY, JSON.stringify(Array.from(missingAssets.values())));
+  } catch {
+    // Storage full or unavailable, the in-memory cache still applies
+  }
+}
+
+function scheduleReport() {
+  if (reportTimer) clearTimeout(reportTimer);
+  reportTimer = setTimeout(() => {
+    reportTimer = null;
+    const report = getMissingAssetReport();
+    console.warn(`[Assets] ${report.length} missing asset${report.length === 1 ? '' : 's'}`);
+    console.table(report);
+  }, REPORT_DELAY_MS);
+}
+
+export function assetOrigin(url: string): AssetOrigin {
+  if (!/^https?:\/\//.test(url)) return 'local';
+  return typeof window !== 'undefined' && url.startsWith(window.location.origin) ? 'local' : 'cdn';
+}
+
+export function cdnAssetUrl(projectId: string, fileName: string): string {
+  return `${CDN_BASE_URL}/${projectId}/assets/${fileName}`;
+}
+
+export function isAssetMissing(url: string): boolean {
+  return missingAssets.has(url);
+}
+
+export function markAssetMissing(url: string, projectId: string | null, kind: AssetKind, reason = 'Not found'): void {
+  if (missingAssets.has(url) || url.startsWith('data:')) return;
+  missingAssets.set(url, { url, projectId, kind, reason });
+  persistMissingAssets();
+  scheduleReport();
+}
+
+export function markAssetAvailable(url: string, projectId: string | null): void {
+  availableAssets.add(url);
+  if (projectId) preferredOrigins.set(projectId, assetOrigin(url));
+}
+
+export function getMissingAssetReport(): MissingAsset[] {
+  return Array.from(missingAssets.values());
+}
+
+/**
+ * Drop known-missing URLs and put the origin that last worked for the project first
+ */
+export function orderAssetCandidates(projectId: string | null, urls: Array<string | null | undefined>): string[] {
+  const candidates = Array.from(new Set(urls.filter((url): url is string => typeof url === 'string' && url !== '' && !isAssetMissing(url))));
+  const preferred = projectId ? preferredOrigins.get(projectId) : undefined;
+  if (!preferred) return candidates;
+  // Array.prototype.sort is stable, so the caller's order holds within an origin
+  return candidates.sort((a, b) => Number(assetOrigin(b) === preferred) - Number(assetOrigin(a) === preferred));
+}
+
+async function withRetries<T>(attempt: () => Promise<T>, retries: number, signal?: AbortSignal): Promise<T> {
+  for (let tries = 0; ; tries++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!(error instanceof TransientAssetError) || tries >= retries || signal?.aborted) throw error;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * (tries + 1)));
+    }
+  }
+}
+
+function requestImage(url: string, timeoutMs: number, options: ResolveOptions): Promise<HTMLImageElement> {
+  const { crossOrigin, signal } = options;
+  return assetRequests.run(() => new Promise<HTMLImageElement | null>((resolve, reject) => {
+    // Skip work that was cancelled while waiting in the queue
+    if (signal?.aborted) {
+      reject(new TransientAssetError('Aborted'));
+      return;
+    }
+    const img = new window.Image();
+    if (crossOrigin !== undefined) img.crossOrigin = crossOrigin;
+    img.decoding = 'sync';
+    const timeout = setTimeout(() => {
+      img.src = '';
+      reject(new TransientAssetError(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    img.onload = () => {
+      clearTimeout(timeout);
+      resolve(img);
+    };
+    img.onerror = () => {
+      clearTimeout(timeout);
+      resolve(null);
+    };
+    img.src = url;
+  })).then(async (img) => {
+    // Classified outside the limiter, the HEAD request needs a slot of its own
+    if (!img) throw await imageLoadFailure(url, timeoutMs);
+    return img;
+  });
+}
+
+async function requestFile(url: string, method: 'GET' | 'HEAD', timeoutMs: number): Promise<Response> {
+  let response: Response;
+  try {
+    response = await assetRequests.run(() => fetch(url, { method, signal: AbortSignal.timeout(timeoutMs) }));
+  } catch (error) {
+    throw new TransientAssetError(error instanceof Error ? error.message : String(error));
+  }
+  if (response.status >= 500) throw new TransientAssetError(`HTTP ${response.status}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response;
+}
+
+/**
+ * Image errors don't expose the status, so ask with a HEAD request. Only a 4xx
+ * comes back as a plain Error (a miss); being offline, a network error or a
+ * file that exists but didn't decode are transient.
+ */
+async function imageLoadFailure(url: string, timeoutMs: number): Promise<Error> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return new TransientAssetError('Offline');
+  try {
+    await requestFile(url, 'HEAD', timeoutMs);
+    return new TransientAssetError('Failed to load');
+  } catch (error) {
+    return error instanceof Error ? error : new TransientAssetError(String(error));
+  }
+}
+
+/**
+ * Record an <img> that failed to load as missing, once the server confirms it
+ */
+export async function confirmAssetMissing(url: string, projectId: string | null, kind: AssetKind): Promise<void> {
+  if (isAssetMissing(url) || url.startsWith('data:')) return;
+  const failure = await imageLoadFailure(url, DEFAULT_TIMEOUT_MS);
+  if (!(failure instanceof TransientAssetError)) markAssetMissing(url, projectId, kind, failure.message);
+}
+
+/**
+ * Load the first image that exists among `urls`. Resolves to null when none do.
+ */
+export async function loadAssetImage(
+  projectId: string | null,
+  urls: Array<string | null | undefined>,
+  kind: AssetKind,
+  options: ResolveOptions = {}
+): Promise<{ url: string; image: HTMLImageElement } | null> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, signal } = options;
+
+  for (const url of orderAssetCandidates(projectId, urls)) {
+    if (signal?.aborted) return null;
+    try {
+      const image = await withRetries(() => requestImage(url, timeoutMs, options), retries, signal);
+      markAssetAvailable(url, projectId);
+      return { url, image };
+    } catch (error) {
+      // Transient failures that ran out of retries aren't cached, the file may well exist
+      if (!(error instanceof TransientAssetError)) {
+        markAssetMissing(url, projectId, kind, error instanceof Error ? error.message : 'Failed to load');
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * First URL among `urls` that answers a HEAD request, or null
+ */
+export async function resolveAssetUrl(
+  projectId: string | null,
+  urls: Array<string | null | undefined>,
+  kind: AssetKind,
+  options: ResolveOptions = {}
+): Promise<string | null> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (const url of orderAssetCandidates(projectId, urls)) {
+    if (availableAssets.has(url)) return url;
+    try {
+      await withRetries(() => requestFile(url, 'HEAD', timeoutMs), retries);
+      markAssetAvailable(url, projectId);
+      return url;
+    } catch (error) {
+      if (!(error instanceof TransientAssetError)) {
+        markAssetMissing(url, projectId, kind, error instanceof Error ? error.message : 'Not found');
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch and parse the first JSON file that exists among `urls`, or null
+ */
+export async function fetchAssetJson<T>(
+  projectId: string | null,
+  urls: Array<string | null | undefined>,
+  kind: AssetKind,
+  options: ResolveOptions = {}
+): Promise<T | null> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (const url of orderAssetCandidates(projectId, urls)) {
+    try {
+      const response = await withRetries(() => requestFile(url, 'GET', timeoutMs), retries);
+      const data = (await response.json()) as T;
+      markAssetAvailable(url, projectId);
+      return data;
+    } catch (error) {
+      if (!(error instanceof TransientAssetError)) {
+        markAssetMissing(url, projectId, kind, error instanceof Error ? error.message : 'Not found');
+      }
+    }
+  }
+  return null;
+}
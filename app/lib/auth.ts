@@ -0,0 +1,321 @@
+/**
+ * Authentication
+ *
+ * Works without a server, so everything here ships in the static bundle. The
+ * bundle only holds salted PBKDF2 hashes: a password derives a verifier (which
+ * is published) and a session key (which is not). Sessions are HMAC-signed,
+ * expiring tokens, and a stored session is only accepted when its key hashes to
+ * the credential's published keyCheck - so a session can't be minted from the
+ * devtools console without knowing a password. The token only carries who
+ * signed in and when it expires: name and role are looked up from the
+ * provider on every read, so editing the token can't raise a role and role
+ * changes in auth.config.json apply without logging in again.
+ *
+ * Sessions expire after sessionLifetimeHours, or rememberDeviceDays when the
+ * user ticks "remember this device". Sessions that aren't remembered also end
+ * after idleTimeoutMinutes without activity in any tab. All timings live in
+ * auth.config.json.
+ *
+ * Credentials come from pluggable providers. Built in are auth.config.json
+ * (per-user or per-team entries) and a single build-time credential passed in
+ * NEXT_PUBLIC_SALES_AUTH_CREDENTIAL. Generate entries with `npm run auth:hash`.
+ */
+
+import authConfig from '@/auth.config.json';
+import { DEFAULT_ROLE, isRole, type Role } from '@/app/lib/roles';
+
+export interface HashedCredential {
+  id: string;
+  name: string;
+  username?: string; // Omit for a shared team password
+  role?: Role; // Defaults to DEFAULT_ROLE
+  salt: string; // base64
+  iterations: number;
+  verifier: string; // base64 of the first 32 derived bytes
+  keyCheck: string; // base64 SHA-256 of the session key (last 32 derived bytes)
+}
+
+export interface AuthIdentity {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export interface AuthSession extends AuthIdentity {
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+  remember: boolean; // Remembered sessions last longer and skip the idle timeout
+}
+
+// Signed into the session token
+interface SessionClaims {
+  id: string;
+  provider: string;
+  issuedAt: number;
+  expiresAt: number;
+  remember: boolean;
+}
+
+export interface AuthProvider {
+  id: string;
+  // Whether any credential of this provider is tied to a username
+  hasUsernames: boolean;
+  authenticate(username: string, password: string): Promise<(AuthIdentity & { sessionKey: Uint8Array }) | null>;
+  verifySessionKey(identityId: string, sessionKey: Uint8Array): Promise<boolean>;
+  // Current name and role for an identity, null once it no longer exists
+  getIdentity(identityId: string): AuthIdentity | null;
+}
+
+const SESSION_STORAGE_KEY = 'sales_showcase_session';
+const SESSION_KEY_STORAGE_KEY = 'sales_showcase_session_key';
+// Last user interaction in any tab, shared so activity in one tab keeps the others alive
+const LAST_ACTIVITY_STORAGE_KEY = 'sales_showcase_last_activity';
+// Boolean flag used before tokens existed; removed on sight
+const LEGACY_AUTH_STORAGE_KEY = 'sales_showcase_auth';
+
+export const SESSION_LIFETIME_MS = (authConfig.sessionLifetimeHours ?? 12) * 60 * 60 * 1000;
+export const REMEMBERED_SESSION_LIFETIME_MS = (authConfig.rememberDeviceDays ?? 30) * 24 * 60 * 60 * 1000;
+export const IDLE_TIMEOUT_MS = (authConfig.idleTimeoutMinutes ?? 30) * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+// Compare without returning early so timing doesn't leak how much matched
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function deriveBits(password: string, credential: HashedCredential): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(credential.salt) as BufferSource, iterations: credential.iterations, hash: 'SHA-256' },
+    baseKey,
+    512
+  );
+  return new Uint8Array(bits);
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as BufferSource));
+}
+
+async function hmac(sessionKey: Uint8Array, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', sessionKey as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+function toIdentity(credential: HashedCredential): AuthIdentity {
+  return {
+    id: credential.id,
+    name: credential.name,
+    role: isRole(credential.role) ? credential.role : DEFAULT_ROLE,
+  };
+}
+
+/**
+ * Provider backed by a list of salted PBKDF2 hashes
+ */
+export function createHashedCredentialProvider(id: string, credentials: HashedCredential[]): AuthProvider {
+  return {
+    id,
+    hasUsernames: credentials.some((credential) => Boolean(credential.username)),
+    async authenticate(username, password) {
+      const normalizedUsername = username.trim().toLowerCase();
+      const candidates = credentials.filter((credential) =>
+        credential.username ? credential.username.toLowerCase() === normalizedUsername : !normalizedUsername
+      );
+
+      for (const credential of candidates) {
+        const derived = await deriveBits(password, credential);
+        if (bytesEqual(derived.slice(0, 32), fromBase64(credential.verifier))) {
+          return { ...toIdentity(credential), sessionKey: derived.slice(32) };
+        }
+      }
+      return null;
+    },
+    async verifySessionKey(identityId, sessionKey) {
+      const credential = credentials.find((candidate) => candidate.id === identityId);
+      if (!credential) return false;
+      return bytesEqual(await sha256(sessionKey), fromBase64(credential.keyCheck));
+    },
+    getIdentity(identityId) {
+      const credential = credentials.find((candidate) => candidate.id === identityId);
+      return credential ? toIdentity(credential) : null;
+    },
+  };
+}
+
+function readBuildTimeCredential(): HashedCredential[] {
+  const raw = process.env.NEXT_PUBLIC_SALES_AUTH_CREDENTIAL;
+  if (!raw) return [];
+  try {
+    return [JSON.parse(raw) as HashedCredential];
+  } catch (error) {
+    console.error('[Auth] NEXT_PUBLIC_SALES_AUTH_CREDENTIAL is not valid JSON:', error);
+    return [];
+  }
+}
+
+const authProviders: AuthProvider[] = [
+  createHashedCredentialProvider('build-secret', readBuildTimeCredential()),
+  createHashedCredentialProvider('config', authConfig.credentials as HashedCredential[]),
+];
+
+/**
+ * Add a credential source, e.g. a provider backed by an external identity service
+ */
+export function registerAuthProvider(provider: AuthProvider): void {
+  authProviders.push(provider);
+}
+
+/**
+ * Whether the login form should ask for a username
+ */
+export function hasUserCredentials(): boolean {
+  return authProviders.some((provider) => provider.hasUsernames);
+}
+
+/**
+ * Check a username/password against every provider and store a signed session on success
+ */
+export async function login(
+  username: string,
+  password: string,
+  { remember = false }: { remember?: boolean } = {}
+): Promise<AuthSession | null> {
+  for (const provider of authProviders) {
+    const identity = await provider.authenticate(username, password);
+    if (!identity) continue;
+
+    const now = Date.now();
+    const session: AuthSession = {
+      id: identity.id,
+      name: identity.name,
+      role: identity.role,
+      issuedAt: now,
+      expiresAt: now + (remember ? REMEMBERED_SESSION_LIFETIME_MS : SESSION_LIFETIME_MS),
+      remember,
+    };
+    const claims: SessionClaims = {
+      id: session.id,
+      provider: provider.id,
+      issuedAt: session.issuedAt,
+      expiresAt: session.expiresAt,
+      remember,
+    };
+    const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+    const signature = toBase64Url(await hmac(identity.sessionKey, payload));
+
+    window.localStorage.setItem(SESSION_STORAGE_KEY, `${payload}.${signature}`);
+    window.localStorage.setItem(SESSION_KEY_STORAGE_KEY, toBase64(identity.sessionKey));
+    window.localStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+    recordActivity();
+    return session;
+  }
+  return null;
+}
+
+export function logout(): void {
+  window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  window.localStorage.removeItem(SESSION_KEY_STORAGE_KEY);
+  window.localStorage.removeItem(LAST_ACTIVITY_STORAGE_KEY);
+  window.localStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+}
+
+/**
+ * Whether a storage event concerns the session, used to sync logins and logouts across tabs
+ */
+export function isSessionStorageKey(key: string | null): boolean {
+  // key is null when another tab called localStorage.clear()
+  return key === null || key === SESSION_STORAGE_KEY || key === SESSION_KEY_STORAGE_KEY;
+}
+
+export function recordActivity(): void {
+  window.localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(Date.now()));
+}
+
+export function readLastActivity(): number {
+  const value = Number(window.localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+export function isIdle(session: AuthSession, now = Date.now()): boolean {
+  return !session.remember && now - readLastActivity() > IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Return the stored session if its signature, key and expiry check out.
+ * Invalid or expired sessions are cleared.
+ */
+export async function readSession(): Promise<AuthSession | null> {
+  if (typeof window === 'undefined') return null;
+
+  window.localStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+  const token = window.localStorage.getItem(SESSION_STORAGE_KEY);
+  const storedKey = window.localStorage.getItem(SESSION_KEY_STORAGE_KEY);
+  if (!token || !storedKey) return null;
+
+  try {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) throw new Error('Malformed session token');
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    const provider = authProviders.find((candidate) => candidate.id === claims.provider);
+    // Name and role always come from the provider, never from the token
+    const identity = provider?.getIdentity(claims.id) ?? null;
+    if (!provider || !identity) throw new Error('Unknown identity');
+
+    const session: AuthSession = {
+      ...identity,
+      issuedAt: claims.issuedAt,
+      expiresAt: claims.expiresAt,
+      remember: claims.remember === true,
+    };
+    const sessionKey = fromBase64(storedKey);
+
+    const valid =
+      typeof claims.expiresAt === 'number' &&
+      claims.expiresAt > Date.now() &&
+      !isIdle(session) &&
+      (await provider.verifySessionKey(claims.id, sessionKey)) &&
+      bytesEqual(await hmac(sessionKey, payload), fromBase64Url(signature));
+
+    if (!valid) {
+      logout();
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.warn('[Auth] Discarding unreadable session:', error);
+    logout();
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Build-time catalog access
+ *
+ * Reads metadata.json and project assets straight from public/ so static
+ * routes can be generated per instance. Only import this from server
+ * components (generateStaticParams, page props) - it uses the filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseCatalog, type Catalog } from '@/app/lib/catalog';
+import type { InstanceAssets } from '@/app/lib/types';
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+let cachedCatalog: Catalog | null = null;
+
+export function readCatalog(): Catalog {
+  if (!cachedCatalog) {
+    const raw = JSON.parse(fs.readFileSync(path.join(PUBLIC_DIR, 'metadata.json'), 'utf8'));
+    cachedCatalog = parseCatalog(raw);
+  }
+  return cachedCatalog;
+}
+
+const existsInPublic = (relativePath: string) => fs.existsSync(path.join(PUBLIC_DIR, relativePath));
+
+export function readInstanceAssets(projectId: string): InstanceAssets {
+  const panorama = ['sample.webp', 'sample.jpg']
+    .map((fileName) => `/projects/${projectId}/sample/${fileName}`)
+    .find(existsInPublic);
+
+  return {
+    hasPreview: existsInPublic(`/previews/${projectId}.webp`),
+    hasOverviewImages: existsInPublic(`/projects/${projectId}/overview-images.json`),
+    panorama: panorama ?? null,
+  };
+}
@@ -0,0 +1,486 @@
+/**
+ * Catalog
+ *
+ * Loads public/metadata.json, validates every record against the
+ * CatalogInstance schema and normalizes legacy entries. Malformed records are
+ * reported as issues instead of being rendered as blank cards.
+ */
+
+import type { CatalogInstance, ExploreInstanceType } from '@/app/lib/types';
+import { getUnitStats, matchesUnitAvailability, type UnitAvailability } from '@/app/lib/units';
+import { listFeatures } from '@/app/lib/features';
+import { getClient } from '@/app/lib/clients';
+
+export type CatalogIssueSeverity = 'error' | 'warning';
+
+export interface CatalogIssue {
+  index: number; // Position of the record in metadata.json
+  id?: string;
+  field?: string;
+  severity: CatalogIssueSeverity; // 'error' = record dropped, 'warning' = field normalized
+  message: string;
+}
+
+export interface Catalog {
+  instances: CatalogInstance[];
+  issues: CatalogIssue[];
+}
+
+export interface CatalogFilters {
+  query: string; // Matched by the search index in app/lib/search.ts, not by filterInstances
+  type: string; // 'all' or an ExploreInstanceType
+  client: string; // 'all' or a client name
+  includedFeatures: string[];
+  excludedFeatures: string[];
+  availability: UnitAvailability;
+  ids: string[]; // Only these instances, in this order - set by collection links
+  collection: string; // Name of the collection the ids came from, '' otherwise
+}
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: '',
+  type: 'all',
+  client: 'all',
+  includedFeatures: [],
+  excludedFeatures: [],
+  availability: 'all',
+  ids: [],
+  collection: '',
+};
+
+export const INSTANCE_TYPES: ExploreInstanceType[] = ['Showroom', 'Unit Finder'];
+
+// Type names used by older metadata exports (same keys as FeatureConfig)
+const LEGACY_TYPE_NAMES: Record<string, ExploreInstanceType> = {
+  'Virtual Showroom': 'Showroom',
+  'Apartment Chooser': 'Unit Finder',
+};
+
+export class CatalogError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'CatalogError';
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate a single metadata.json record. Returns null when the record cannot
+ * be rendered; every dropped or normalized field is pushed onto `issues`.
+ */
+function normalizeRecord(raw: unknown, index: number, issues: CatalogIssue[]): CatalogInstance | null {
+  if (!isRecord(raw)) {
+    issues.push({ index, severity: 'error', message: 'Record is not an object' });
+    return null;
+  }
+
+  const id = isNonEmptyString(raw.id) ? raw.id.trim() : isNonEmptyString(raw.uuid) ? raw.uuid.trim() : null;
+  if (!id) {
+    issues.push({ index, field: 'id', severity: 'error', message: 'Missing id and uuid' });
+    return null;
+  }
+
+  const report = (field: string, severity: CatalogIssueSeverity, message: string) => {
+    issues.push({ index, id, field, severity, message });
+  };
+
+  if (!isNonEmptyString(raw.name)) {
+    report('name', 'error', 'Missing name');
+    return null;
+  }
+
+  let type: ExploreInstanceType | null = null;
+  if (typeof raw.type === 'string') {
+    if ((INSTANCE_TYPES as string[]).includes(raw.type)) {
+      type = raw.type as ExploreInstanceType;
+    } else if (LEGACY_TYPE_NAMES[raw.type]) {
+      type = LEGACY_TYPE_NAMES[raw.type];
+    }
+  }
+  if (!type) {
+    report('type', 'error', `Unknown type ${JSON.stringify(raw.type)}`);
+    return null;
+  }
+
+  const optionalString = (field: string): string | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'string') return value;
+    report(field, 'warning', `Expected a string, got ${typeof value}`);
+    return undefined;
+  };
+
+  const optionalBoolean = (field: string): boolean | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'boolean') return value;
+    report(field, 'warning', `Expected a boolean, got ${typeof value}`);
+    return undefined;
+  };
+
+  const optionalCount = (field: string): number | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (isCount(value)) return value;
+    report(field, 'warning', `Expected a non-negative number, got ${JSON.stringify(value)}`);
+    return undefined;
+  };
+
+  const stringList = (field: string): string[] | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) {
+      report(field, 'warning', 'Expected an array of strings');
+      return undefined;
+    }
+    const strings = value.filter(isNonEmptyString).map((item) => item.trim());
+    if (strings.length !== value.length) {
+      report(field, 'warning', `Dropped ${value.length - strings.length} non-string entries`);
+    }
+    return Array.from(new Set(strings));
+  };
+
+  const link = optionalString('link');
+  if (!link) {
+    report('link', 'warning', 'Missing link, the project cannot be launched');
+  }
+
+  const status = raw.status;
+  if (status !== undefined && status !== null && status !== 'Public' && status !== 'Private') {
+    report('status', 'warning', `Unknown status ${JSON.stringify(status)}`);
+  }
+
+  let groupsStats: CatalogInstance['groupsStats'];
+  if (Array.isArray(raw.groupsStats)) {
+    const valid = raw.groupsStats.filter(
+      (group): group is { totalUnits: number; soldUnits: number; availableUnits: number } =>
+        isRecord(group) && isCount(group.totalUnits) && isCount(group.soldUnits) && isCount(group.availableUnits)
+    );
+    if (valid.length !== raw.groupsStats.length) {
+      report('groupsStats', 'warning', `Dropped ${raw.groupsStats.length - valid.length} malformed groups`);
+    }
+    groupsStats = valid.map(({ totalUnits, soldUnits, availableUnits }) => ({ totalUnits, soldUnits, availableUnits }));
+  } else if (raw.groupsStats !== undefined && raw.groupsStats !== null) {
+    report('groupsStats', 'warning', 'Expected an array');
+  }
+
+  return {
+    id,
+    uuid: isNonEmptyString(raw.uuid) ? raw.uuid.trim() : id,
+    name: raw.name.trim(),
+    client: optionalString('client')?.trim() ?? '',
+    link: link ?? '',
+    type,
+    features: stringList('features') ?? [],
+    image: optionalString('image') ?? null,
+    description: optionalString('description'),
+    // Older entries without this field are treated as active
+    active: optionalBoolean('active') ?? true,
+    isShowcase: optionalBoolean('isShowcase') ?? false,
+    featured: optionalBoolean('featured'),
+    hidden: optionalBoolean('hidden'),
+    verified: optionalBoolean('verified'),
+    hasRenderData: optionalBoolean('hasRenderData'),
+    isUuidBased: optionalBoolean('isUuidBased'),
+    status: status === 'Public' || status === 'Private' ? status : undefined,
+    totalUnits: optionalCount('totalUnits'),
+    soldUnits: optionalCount('soldUnits'),
+    availableUnits: optionalCount('availableUnits'),
+    groups: optionalCount('groups'),
+    groupsStats,
+    featuresBehindLogin: stringList('featuresBehindLogin'),
+    uuids: stringList('uuids'),
+    createdAt: optionalString('createdAt'),
+    created: optionalString('created'),
+    updated: optionalString('updated'),
+    importedAt: optionalString('importedAt'),
+    batchImportId: optionalString('batchImportId'),
+  };
+}
+
+/**
+ * Validate and normalize the raw contents of metadata.json
+ */
+export function parseCatalog(raw: unknown): Catalog {
+  if (!Array.isArray(raw)) {
+    throw new CatalogError('metadata.json must contain an array of instances');
+  }
+
+  const issues: CatalogIssue[] = [];
+  const instances: CatalogInstance[] = [];
+  const seenIds = new Set<string>();
+
+  raw.forEach((record, index) => {
+    const instance = normalizeRecord(record, index, issues);
+    if (!instance) return;
+    if (seenIds.has(instance.id)) {
+      issues.push({ index, id: instance.id, field: 'id', severity: 'error', message: 'Duplicate id' });
+      return;
+    }
+    seenIds.add(instance.id);
+    instances.push(instance);
+  });
+
+  return { instances, issues };
+}
+
+const catalogCache = new Map<string, Promise<Catalog>>();
+
+/**
+ * Fetch and validate metadata.json. Results are cached per basePath so every
+ * page and component shares a single request.
+ */
+export function loadCatalog(basePath = ''): Promise<Catalog> {
+  const cached = catalogCache.get(basePath);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    let response: Response;
+    try {
+      response = await fetch(`${basePath}/metadata.json`);
+    } catch (error) {
+      throw new CatalogError('Failed to fetch metadata.json', error);
+    }
+    if (!response.ok) {
+      throw new CatalogError(`Failed to fetch metadata.json (HTTP ${response.status})`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = await response.json();
+    } catch (error) {
+      throw new CatalogError('metadata.json is not valid JSON', error);
+    }
+
+    const catalog = parseCatalog(raw);
+    if (catalog.issues.length > 0) {
+      console.warn(`[Catalog] ${catalog.issues.length} issue(s) in metadata.json`, catalog.issues);
+    }
+    return catalog;
+  })();
+
+  // Don't cache failures so a retry can succeed
+  promise.catch(() => catalogCache.delete(basePath));
+  catalogCache.set(basePath, promise);
+  return promise;
+}
+
+// Selectors shared by every page that renders the catalog
+
+export function selectInstanceById(instances: CatalogInstance[], id: string): CatalogInstance | undefined {
+  return instances.find((instance) => instance.id === id || instance.uuid === id);
+}
+
+// Client names with aliases from clients.config.json merged, e.g. "PEAB" is listed as "Peab"
+export function selectClients(instances: CatalogInstance[]): string[] {
+  return Array.from(new Set(instances.filter((instance) => instance.client).map((instance) => getClient(instance.client).name))).sort();
+}
+
+export function isSameClient(a: string, b: string): boolean {
+  return getClient(a).slug === getClient(b).slug;
+}
+
+export function selectFeatureCounts(instances: CatalogInstance[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  instances.forEach((instance) => {
+    instance.features.forEach((feature) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+/**
+ * Filter options for the features of `type` ('all' for every type): configured
+ * features in features.config.json order, then unconfigured ones by name
+ */
+export function selectFeatureOptions(
+  instances: CatalogInstance[],
+  type = 'all'
+): Array<{ value: string; label: string }> {
+  const typed = (INSTANCE_TYPES as string[]).includes(type) ? (type as ExploreInstanceType) : undefined;
+  const counts = selectFeatureCounts(typed ? instances.filter((instance) => instance.type === typed) : instances);
+  const configured = listFeatures(typed).map((feature) => feature.name).filter((feature) => counts.has(feature));
+  const other = Array.from(counts.keys()).filter((feature) => !configured.includes(feature)).sort((a, b) => a.localeCompare(b));
+  return [...configured, ...other].map((feature) => ({ value: feature, label: `${feature} (${counts.get(feature)})` }));
+}
+
+export function hasActiveFilters(filters: CatalogFilters): boolean {
+  return (
+    filters.type !== 'all' ||
+    filters.client !== 'all' ||
+    filters.includedFeatures.length > 0 ||
+    filters.excludedFeatures.length > 0 ||
+    filters.availability !== 'all' ||
+    filters.ids.length > 0 ||
+    filters.query.trim().length > 0
+  );
+}
+
+/**
+ * Apply the collection, type, client, feature and unit availability filters. The text query is left to the search index.
+ * A collection keeps its own order.
+ */
+export function filterInstances(instances: CatalogInstance[], filters: CatalogFilters): CatalogInstance[] {
+  let selected = instances;
+  if (filters.ids.length > 0) {
+    const byId = new Map(instances.map((instance) => [instance.id, instance]));
+    selected = filters.ids.map((id) => byId.get(id)).filter((instance): instance is CatalogInstance => !!instance);
+  }
+  return selected.filter((instance) => {
+    if (filters.type !== 'all' && instance.type !== filters.type) return false;
+    if (filters.client !== 'all' && !isSameClient(instance.client, filters.client)) return false;
+    if (!filters.includedFeatures.every((feature) => instance.features.includes(feature))) return false;
+    if (filters.excludedFeatures.some((feature) => instance.features.includes(feature))) return false;
+    if (!matchesUnitAvailability(instance, filters.availability)) return false;
+    return true;
+  });
+}
+
+// Sorting and grouping of the grid
+
+export type SortKey = 'default' | 'name' | 'client' | 'type' | 'created' | 'updated' | 'features' | 'showcase' | 'available';
+export type SortDirection = 'asc' | 'desc';
+export type GroupKey = 'none' | 'client' | 'type' | 'status';
+
+export interface CatalogView {
+  sort: SortKey; // 'default' keeps metadata.json order, or search ranking while searching
+  direction: SortDirection;
+  group: GroupKey;
+}
+
+export const DEFAULT_CATALOG_VIEW: CatalogView = {
+  sort: 'default',
+  direction: 'asc',
+  group: 'none',
+};
+
+export const SORT_OPTIONS: Array<{ value: SortKey; label: string; defaultDirection: SortDirection }> = [
+  { value: 'default', label: 'Default', defaultDirection: 'asc' },
+  { value: 'name', label: 'Name', defaultDirection: 'asc' },
+  { value: 'client', label: 'Client', defaultDirection: 'asc' },
+  { value: 'type', label: 'Type', defaultDirection: 'asc' },
+  { value: 'created', label: 'Created', defaultDirection: 'desc' },
+  { value: 'updated', label: 'Updated', defaultDirection: 'desc' },
+  { value: 'features', label: 'Number of features', defaultDirection: 'desc' },
+  { value: 'showcase', label: 'Showcase first', defaultDirection: 'asc' },
+  { value: 'available', label: 'Available units', defaultDirection: 'desc' },
+];
+
+export const GROUP_OPTIONS: Array<{ value: GroupKey; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'client', label: 'Client' },
+  { value: 'type', label: 'Type' },
+  { value: 'status', label: 'Status' },
+];
+
+export const isSortKey = (value: unknown): value is SortKey =>
+  SORT_OPTIONS.some((option) => option.value === value);
+
+export const isGroupKey = (value: unknown): value is GroupKey =>
+  GROUP_OPTIONS.some((option) => option.value === value);
+
+/**
+ * Parse export dates such as "2025-12-08 17:43:29" (or ISO strings) to a timestamp
+ */
+export function parseCatalogDate(value: string | undefined): number | null {
+  if (!value) return null;
+  const timestamp = Date.parse(value.includes('T') ? value : value.replace(' ', 'T'));
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+/**
+ * Sort a copy of the instances. Entries without the sorted value (e.g. no created date) always go last.
+ */
+export function sortInstances(instances: CatalogInstance[], sort: SortKey, direction: SortDirection): CatalogInstance[] {
+  if (sort === 'default') return instances;
+  const sign = direction === 'asc' ? 1 : -1;
+
+  const compareDates = (a?: string, b?: string) => {
+    const dateA = parseCatalogDate(a);
+    const dateB = parseCatalogDate(b);
+    if (dateA === null || dateB === null) return dateA === dateB ? 0 : dateA === null ? 1 : -1;
+    return sign * (dateA - dateB);
+  };
+
+  const compare = (a: CatalogInstance, b: CatalogInstance): number => {
+    switch (sort) {
+      case 'name':
+        return sign * compareText(a.name, b.name);
+      case 'client':
+        if (!a.client || !b.client) return a.client === b.client ? 0 : a.client ? -1 : 1;
+        return sign * compareText(a.client, b.client);
+      case 'type':
+        return sign * compareText(a.type, b.type);
+      case 'created':
+        return compareDates(a.created ?? a.createdAt, b.created ?? b.createdAt);
+      case 'updated':
+        return compareDates(a.updated, b.updated);
+      case 'features':
+        return sign * (a.features.length - b.features.length);
+      case 'showcase':
+        return sign * (Number(b.isShowcase) - Number(a.isShowcase));
+      case 'available': {
+        const unitsA = getUnitStats(a)?.available;
+        const unitsB = getUnitStats(b)?.available;
+        if (unitsA === undefined || unitsB === undefined) return unitsA === unitsB ? 0 : unitsA === undefined ? 1 : -1;
+        return sign * (unitsA - unitsB);
+      }
+    }
+  };
+
+  // Ties fall back to name so the order is stable across reloads
+  return [...instances].sort((a, b) => compare(a, b) || compareText(a.name, b.name));
+}
+
+export interface InstanceGroup {
+  key: string;
+  label: string;
+  instances: CatalogInstance[];
+}
+
+/**
+ * Split instances into labelled groups, keeping their order within each group
+ */
+export function groupInstances(instances: CatalogInstance[], group: GroupKey): InstanceGroup[] {
+  if (group === 'none') {
+    return [{ key: 'all', label: 'All instances', instances }];
+  }
+
+  const labelFor = (instance: CatalogInstance): string => {
+    switch (group) {
+      case 'client':
+        return instance.client || 'No client';
+      case 'type':
+        return instance.type;
+      case 'status':
+        return instance.status ?? 'Unknown status';
+    }
+  };
+
+  const groups = new Map<string, CatalogInstance[]>();
+  instances.forEach((instance) => {
+    const label = labelFor(instance);
+    const members = groups.get(label);
+    if (members) {
+      members.push(instance);
+    } else {
+      groups.set(label, [instance]);
+    }
+  });
+
+  return Array.from(groups, ([label, members]) => ({ key: `${group}:${label}`, label, instances: members }))
+    .sort((a, b) => compareText(a.label, b.label));
+}
@@ -0,0 +1,156 @@
+/**
+ * Catalog changelog
+ *
+ * public/catalog-changelog.json is written by `npm run catalog:changelog`
+ * (scripts/catalog-changelog.mjs) from the snapshots in catalog-history/ and
+ * lists, per data release, the instances that were added, removed or changed.
+ * Like the asset manifest it is optional: without it there is simply no
+ * "What's new" panel and no card badges.
+ */
+
+import type { RolePolicy } from '@/app/lib/roles';
+
+// State of an instance in the snapshot the entry was taken from
+export interface ChangelogInstance {
+  id: string;
+  name: string;
+  client?: string;
+  type?: string;
+  status?: 'Public' | 'Private';
+  hidden?: boolean;
+}
+
+export interface ChangelogFieldChange {
+  field: 'name' | 'client' | 'type' | 'status' | 'hidden' | 'link';
+  from: string | boolean | null;
+  to: string | boolean | null;
+}
+
+export interface ChangelogChange extends ChangelogInstance {
+  previousStatus?: 'Public' | 'Private';
+  previousHidden?: boolean;
+  fields: ChangelogFieldChange[];
+  features: { added: string[]; removed: string[] };
+}
+
+export interface CatalogRelease {
+  id: string; // Hash of the snapshot
+  date: string; // ISO date of the snapshot
+  previous: string;
+  added: ChangelogInstance[];
+  removed: ChangelogInstance[];
+  changed: ChangelogChange[];
+}
+
+export interface CatalogChangelog {
+  version: number;
+  generatedAt: string;
+  current: string; // Hash of the snapshot metadata.json was built from
+  releases: CatalogRelease[]; // Newest first
+}
+
+export type RecentChangeKind = 'new' | 'updated';
+
+export interface RecentChange {
+  kind: RecentChangeKind;
+  date: string;
+}
+
+const SUPPORTED_VERSION = 1;
+// How long cards keep their "New" and "Updated" badges
+export const RECENT_CHANGE_DAYS = 30;
+
+const SEEN_STORAGE_KEY = 'sales_showcase_changelog_seen';
+
+const changelogCache = new Map<string, Promise<CatalogChangelog | null>>();
+
+/**
+ * Fetch catalog-changelog.json once per basePath. Resolves to null when it is
+ * missing or from an unsupported version.
+ */
+export function loadCatalogChangelog(basePath = ''): Promise<CatalogChangelog | null> {
+  const cached = changelogCache.get(basePath);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    try {
+      const response = await fetch(`${basePath}/catalog-changelog.json`);
+      if (!response.ok) return null;
+      const changelog = (await response.json()) as CatalogChangelog;
+      if (changelog?.version !== SUPPORTED_VERSION || !Array.isArray(changelog.releases)) {
+        console.warn(`[Changelog] Ignoring catalog-changelog.json with unsupported version ${changelog?.version}`);
+        return null;
+      }
+      return changelog;
+    } catch {
+      return null;
+    }
+  })();
+
+  changelogCache.set(basePath, promise);
+  return promise;
+}
+
+function isEntryVisible(status: ChangelogInstance['status'], hidden: boolean | undefined, policy: RolePolicy): boolean {
+  if (hidden && !policy.showHidden) return false;
+  if (status === 'Private' && !policy.showPrivate) return false;
+  return true;
+}
+
+/**
+ * Drop entries the role couldn't see in the catalog. A change is kept when the
+ * instance was visible before or after it, so sales still learn that a
+ * project went Private.
+ */
+export function selectVisibleRelease(release: CatalogRelease, policy: RolePolicy): CatalogRelease {
+  return {
+    ...release,
+    added: release.added.filter((entry) => isEntryVisible(entry.status, entry.hidden, policy)),
+    removed: release.removed.filter((entry) => isEntryVisible(entry.status, entry.hidden, policy)),
+    changed: release.changed.filter((entry) =>
+      isEntryVisible(entry.status, entry.hidden, policy)
+      || isEntryVisible(entry.previousStatus, entry.previousHidden, policy)
+    ),
+  };
+}
+
+export function isReleaseEmpty(release: CatalogRelease): boolean {
+  return release.added.length === 0 && release.removed.length === 0 && release.changed.length === 0;
+}
+
+export function isRecentRelease(release: CatalogRelease, now = Date.now()): boolean {
+  return now - new Date(release.date).getTime() <= RECENT_CHANGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// Status flips are what sales asks about most, so they get their own list
+export function getStatusChange(change: ChangelogChange): ChangelogFieldChange | undefined {
+  return change.fields.find((field) => field.field === 'status');
+}
+
+/**
+ * Instances added or changed in a recent release, by id. The newest release
+ * wins, except that an instance added recently stays "new".
+ */
+export function getRecentChanges(changelog: CatalogChangelog | null, now = Date.now()): Map<string, RecentChange> {
+  const changes = new Map<string, RecentChange>();
+  if (!changelog) return changes;
+
+  changelog.releases.filter((release) => isRecentRelease(release, now)).forEach((release) => {
+    release.added.forEach((entry) => {
+      if (changes.get(entry.id)?.kind !== 'new') changes.set(entry.id, { kind: 'new', date: release.date });
+    });
+    release.changed.forEach((entry) => {
+      if (!changes.has(entry.id)) changes.set(entry.id, { kind: 'updated', date: release.date });
+    });
+  });
+  return changes;
+}
+
+export function readSeenRelease(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(SEEN_STORAGE_KEY);
+}
+
+export function markReleaseSeen(id: string): void {
+  window.localStorage.setItem(SEEN_STORAGE_KEY, id);
+}
@@ -0,0 +1,132 @@
+/**
+ * Client registry
+ *
+ * clients.config.json lists known clients with an optional logo, favicon and
+ * website, plus the other spellings of their name found in metadata.json.
+ * Clients that only appear in the catalog get an entry of their own, so every
+ * instance.client resolves to a client with a slug for /clients/<slug>.
+ *
+ * Favicons of client websites are downloaded at build time by
+ * `npm run clients:favicons` (scripts/fetch-favicons.mjs) and listed in
+ * public/clients-manifest.json, so the site never loads them from the client.
+ */
+
+import type { CatalogInstance, Client, ClientConfig } from '@/app/lib/types';
+import clientConfig from '@/clients.config.json';
+
+export interface ClientEntry extends Client {
+  slug: string;
+  registered: boolean; // Listed in clients.config.json
+}
+
+export interface ClientPortfolio {
+  client: ClientEntry;
+  instances: CatalogInstance[];
+  showrooms: number;
+  unitFinders: number;
+}
+
+export interface ClientManifest {
+  version: number;
+  generatedAt: string;
+  favicons: Record<string, string>; // Path under basePath, by client slug
+}
+
+const SUPPORTED_VERSION = 1;
+
+// Must stay in sync with clientSlug in scripts/fetch-favicons.mjs
+export function clientSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ø/g, 'o')
+    .replace(/æ/g, 'ae')
+    .replace(/å/g, 'a')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+const registeredClients: ClientEntry[] = Object.entries(clientConfig as ClientConfig).map(([key, client]) => ({
+  ...client,
+  name: client.name || key,
+  slug: clientSlug(client.name || key),
+  registered: true,
+}));
+
+const clientsByName = new Map<string, ClientEntry>();
+registeredClients.forEach((client) => {
+  [client.name, ...(client.aliases ?? [])].forEach((name) => clientsByName.set(name.toLowerCase(), client));
+});
+
+/**
+ * The registry entry for a client name or alias, or an unregistered entry named after it
+ */
+export function getClient(name: string): ClientEntry {
+  return clientsByName.get(name.toLowerCase()) ?? { name, slug: clientSlug(name), registered: false };
+}
+
+/**
+ * Instances per client, with aliases merged. Largest portfolio first;
+ * instances without a client are left out.
+ */
+export function selectClientPortfolios(instances: CatalogInstance[]): ClientPortfolio[] {
+  const portfolios = new Map<string, ClientPortfolio>();
+  instances.forEach((instance) => {
+    if (!instance.client) return;
+    const client = getClient(instance.client);
+    const portfolio = portfolios.get(client.slug) ?? { client, instances: [], showrooms: 0, unitFinders: 0 };
+    portfolio.instances.push(instance);
+    if (instance.type === 'Showroom') portfolio.showrooms++;
+    else portfolio.unitFinders++;
+    portfolios.set(client.slug, portfolio);
+  });
+  return Array.from(portfolios.values())
+    .sort((a, b) => b.instances.length - a.instances.length || a.client.name.localeCompare(b.client.name));
+}
+
+export function selectClientPortfolio(instances: CatalogInstance[], slug: string): ClientPortfolio | undefined {
+  return selectClientPortfolios(instances).find((portfolio) => portfolio.client.slug === slug);
+}
+
+const manifestCache = new Map<string, Promise<ClientManifest | null>>();
+
+/**
+ * Fetch clients-manifest.json once per basePath. Resolves to null when it is
+ * missing, in which case clients show their logo or initials.
+ */
+export function loadClientManifest(basePath = ''): Promise<ClientManifest | null> {
+  const cached = manifestCache.get(basePath);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    try {
+      const response = await fetch(`${basePath}/clients-manifest.json`);
+      if (!response.ok) return null;
+      const manifest = (await response.json()) as ClientManifest;
+      if (manifest?.version !== SUPPORTED_VERSION || typeof manifest.favicons !== 'object') {
+        console.warn(`[Clients] Ignoring clients-manifest.json with unsupported version ${manifest?.version}`);
+        return null;
+      }
+      return manifest;
+    } catch {
+      return null;
+    }
+  })();
+
+  manifestCache.set(basePath, promise);
+  return promise;
+}
+
+/**
+ * Image to show for a client: its logo, then the downloaded favicon. Remote
+ * favicon URLs from the config are only used through the manifest.
+ */
+export function selectClientImage(client: ClientEntry, manifest: ClientManifest | null, basePath = ''): string | null {
+  const local = (src: string | undefined) => {
+    if (!src) return null;
+    if (src.startsWith('data:')) return src;
+    return src.startsWith('/') ? `${basePath}${src}` : null;
+  };
+  return local(client.logo) ?? local(manifest?.favicons[client.slug]) ?? local(client.favicon);
+}
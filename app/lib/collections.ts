@@ -0,0 +1,191 @@
+/**
+ * Favorites and collections
+ *
+ * Starred instances and named, ordered collections (e.g. "Oslo residential
+ * pitch") are kept in localStorage per signed-in user, like preferences.
+ * Collections can be exported to and imported from JSON, and shared as a grid
+ * link that lists only their instances (see PARAM_IDS in filter-url.ts).
+ *
+ * Only instance ids are stored. Ids that are no longer in the catalog are
+ * kept, so a collection survives a project being hidden for a while.
+ */
+
+export interface Collection {
+  id: string;
+  name: string;
+  instanceIds: string[]; // In presentation order
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+}
+
+export interface SavedCollections {
+  favorites: string[]; // Starred instance ids, most recent last
+  collections: Collection[];
+}
+
+export interface CollectionsExport extends SavedCollections {
+  version: number;
+  exportedAt: string;
+}
+
+const EXPORT_VERSION = 1;
+const COLLECTIONS_STORAGE_PREFIX = 'sales_showcase_collections:';
+// Dispatched on window whenever the saved collections change in this tab
+export const COLLECTIONS_CHANGE_EVENT = 'sales-showcase-collections-change';
+
+// Shown for the favorites when they are opened in the grid like a collection
+export const FAVORITES_COLLECTION_NAME = 'Favorites';
+
+export const EMPTY_COLLECTIONS: SavedCollections = { favorites: [], collections: [] };
+
+export function collectionsStorageKey(userId: string): string {
+  return `${COLLECTIONS_STORAGE_PREFIX}${userId}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const idList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((id): id is string => typeof id === 'string' && id.trim().length > 0)))
+    : [];
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Keep the well-formed parts of stored or imported data
+ */
+function sanitizeCollections(raw: unknown): SavedCollections {
+  if (!isRecord(raw)) return EMPTY_COLLECTIONS;
+  const now = Date.now();
+  const collections = (Array.isArray(raw.collections) ? raw.collections : [])
+    .filter(isRecord)
+    .filter((collection) => typeof collection.name === 'string' && collection.name.trim().length > 0)
+    .map((collection) => ({
+      id: typeof collection.id === 'string' && collection.id ? collection.id : createId(),
+      name: (collection.name as string).trim(),
+      instanceIds: idList(collection.instanceIds),
+      createdAt: typeof collection.createdAt === 'number' ? collection.createdAt : now,
+      updatedAt: typeof collection.updatedAt === 'number' ? collection.updatedAt : now,
+    }));
+  return { favorites: idList(raw.favorites), collections };
+}
+
+export function readCollections(userId: string | null | undefined): SavedCollections {
+  if (typeof window === 'undefined' || !userId) return EMPTY_COLLECTIONS;
+  try {
+    return sanitizeCollections(JSON.parse(window.localStorage.getItem(collectionsStorageKey(userId)) ?? '{}'));
+  } catch {
+    return EMPTY_COLLECTIONS;
+  }
+}
+
+export function writeCollections(userId: string, saved: SavedCollections): void {
+  window.localStorage.setItem(collectionsStorageKey(userId), JSON.stringify(saved));
+  window.dispatchEvent(new Event(COLLECTIONS_CHANGE_EVENT));
+}
+
+// Updates return a new SavedCollections and never mutate their input
+
+export function toggleFavorite(saved: SavedCollections, instanceId: string): SavedCollections {
+  const favorites = saved.favorites.includes(instanceId)
+    ? saved.favorites.filter((id) => id !== instanceId)
+    : [...saved.favorites, instanceId];
+  return { ...saved, favorites };
+}
+
+export function createCollection(saved: SavedCollections, name: string, instanceIds: string[] = []): SavedCollections {
+  const now = Date.now();
+  const collection: Collection = { id: createId(), name: name.trim(), instanceIds: idList(instanceIds), createdAt: now, updatedAt: now };
+  return { ...saved, collections: [...saved.collections, collection] };
+}
+
+function updateCollection(
+  saved: SavedCollections,
+  collectionId: string,
+  update: (collection: Collection) => Partial<Collection>
+): SavedCollections {
+  return {
+    ...saved,
+    collections: saved.collections.map((collection) =>
+      collection.id === collectionId ? { ...collection, ...update(collection), updatedAt: Date.now() } : collection
+    ),
+  };
+}
+
+export function renameCollection(saved: SavedCollections, collectionId: string, name: string): SavedCollections {
+  return updateCollection(saved, collectionId, () => ({ name: name.trim() }));
+}
+
+export function deleteCollection(saved: SavedCollections, collectionId: string): SavedCollections {
+  return { ...saved, collections: saved.collections.filter((collection) => collection.id !== collectionId) };
+}
+
+export function toggleInCollection(saved: SavedCollections, collectionId: string, instanceId: string): SavedCollections {
+  return updateCollection(saved, collectionId, ({ instanceIds }) => ({
+    instanceIds: instanceIds.includes(instanceId)
+      ? instanceIds.filter((id) => id !== instanceId)
+      : [...instanceIds, instanceId],
+  }));
+}
+
+/**
+ * Move an instance up (-1) or down (1) in a collection
+ */
+export function moveInCollection(
+  saved: SavedCollections,
+  collectionId: string,
+  instanceId: string,
+  offset: number
+): SavedCollections {
+  return updateCollection(saved, collectionId, ({ instanceIds }) => {
+    const from = instanceIds.indexOf(instanceId);
+    const to = Math.max(0, Math.min(instanceIds.length - 1, from + offset));
+    if (from < 0 || from === to) return {};
+    const reordered = [...instanceIds];
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+    return { instanceIds: reordered };
+  });
+}
+
+export function exportCollections(saved: SavedCollections): string {
+  const data: CollectionsExport = { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), ...saved };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Parse an export file. Throws with a message meant for the user when it isn't one.
+ */
+export function parseCollectionsExport(json: string): SavedCollections {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(raw) || (!Array.isArray(raw.collections) && !Array.isArray(raw.favorites))) {
+    throw new Error('The file does not contain any collections');
+  }
+  if (typeof raw.version === 'number' && raw.version > EXPORT_VERSION) {
+    throw new Error(`Collections export version ${raw.version} is not supported`);
+  }
+  return sanitizeCollections(raw);
+}
+
+/**
+ * Add imported favorites and collections. A collection with the same id as a
+ * saved one replaces it, so importing the same file twice changes nothing.
+ */
+export function mergeCollections(saved: SavedCollections, imported: SavedCollections): SavedCollections {
+  const importedById = new Map(imported.collections.map((collection) => [collection.id, collection]));
+  const savedIds = new Set(saved.collections.map((collection) => collection.id));
+  return {
+    favorites: idList([...saved.favorites, ...imported.favorites]),
+    collections: [
+      ...saved.collections.map((collection) => importedById.get(collection.id) ?? collection),
+      ...imported.collections.filter((collection) => !savedIds.has(collection.id)),
+    ],
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Compare tray
+ *
+ * Up to MAX_COMPARE instances picked from the grid, compared side by side on
+ * /instances/compare. The tray lives in localStorage so it survives moving
+ * between the grid and detail pages; the compare page itself takes the ids
+ * from the query string (/instances/compare/?ids=a,b,c) so a comparison can
+ * be shared.
+ */
+
+import { DEFAULT_CATALOG_FILTERS } from '@/app/lib/catalog';
+import { filtersToSearchParams } from '@/app/lib/filter-url';
+import { listFeatures } from '@/app/lib/features';
+import type { CatalogInstance } from '@/app/lib/types';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+const COMPARE_STORAGE_KEY = 'sales_showcase_compare';
+// Dispatched on window whenever the tray changes in this tab
+export const COMPARE_CHANGE_EVENT = 'sales-showcase-compare-change';
+
+export function readCompareTray(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(COMPARE_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string').slice(0, MAX_COMPARE) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeCompareTray(ids: string[]): void {
+  window.localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(ids.slice(0, MAX_COMPARE)));
+  window.dispatchEvent(new Event(COMPARE_CHANGE_EVENT));
+}
+
+export function isCompareStorageKey(key: string | null): boolean {
+  return key === COMPARE_STORAGE_KEY;
+}
+
+/**
+ * Add or remove an instance. Adding to a full tray does nothing.
+ */
+export function toggleCompare(ids: string[], instanceId: string): string[] {
+  if (ids.includes(instanceId)) return ids.filter((id) => id !== instanceId);
+  return ids.length < MAX_COMPARE ? [...ids, instanceId] : ids;
+}
+
+export function compareToSearchParams(ids: string[]): URLSearchParams {
+  return filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, ids });
+}
+
+export interface FeatureComparison {
+  feature: string;
+  present: boolean[]; // One entry per compared instance, in column order
+}
+
+/**
+ * Every feature of the compared instances. Features only some of them have
+ * come first, since those are the differences worth pointing out; within each
+ * part configured features keep the registry order.
+ */
+export function selectFeatureComparison(instances: CatalogInstance[]): FeatureComparison[] {
+  const configured = listFeatures().map((feature) => feature.name);
+  const rank = (feature: string) => {
+    const index = configured.indexOf(feature);
+    return index === -1 ? configured.length : index;
+  };
+  const features = Array.from(new Set(instances.flatMap((instance) => instance.features)));
+  return features
+    .map((feature) => ({ feature, present: instances.map((instance) => instance.features.includes(feature)) }))
+    .sort((a, b) => {
+      const sharedA = a.present.every(Boolean);
+      const sharedB = b.present.every(Boolean);
+      if (sharedA !== sharedB) return sharedA ? 1 : -1;
+      return rank(a.feature) - rank(b.feature) || a.feature.localeCompare(b.feature);
+    });
+}
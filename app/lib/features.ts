@@ -0,0 +1,57 @@
+/**
+ * Feature registry
+ *
+ * Colors, icons and descriptions for instance features come from
+ * features.config.json, keyed by the type names of the original export
+ * ("Virtual Showroom", "Apartment Chooser"). Features found in metadata.json
+ * but missing from the config still render, with a neutral style.
+ */
+
+import type { ExploreInstanceType, FeatureConfig, FeatureWithColor } from '@/app/lib/types';
+import featureConfig from '@/features.config.json';
+
+const config = featureConfig as FeatureConfig;
+
+// Same mapping as LEGACY_TYPE_NAMES in app/lib/catalog.ts, the other way round
+const CONFIG_KEYS: Record<ExploreInstanceType, keyof FeatureConfig> = {
+  Showroom: 'Virtual Showroom',
+  'Unit Finder': 'Apartment Chooser',
+};
+
+export const DEFAULT_FEATURE_STYLE: Omit<FeatureWithColor, 'name'> = {
+  color: 'rgba(255, 255, 255, 0.1)',
+  textColor: 'white',
+};
+
+/**
+ * Configured features of one type, in config order. Without a type, every
+ * configured feature (once, first definition wins).
+ */
+export function listFeatures(type?: ExploreInstanceType): FeatureWithColor[] {
+  if (type) return config[CONFIG_KEYS[type]] ?? [];
+  const seen = new Set<string>();
+  return Object.values(config).flat().filter((feature) => {
+    if (seen.has(feature.name)) return false;
+    seen.add(feature.name);
+    return true;
+  });
+}
+
+/**
+ * Style of a feature, preferring the definition for the instance's type
+ */
+export function getFeatureDefinition(name: string, type?: ExploreInstanceType): FeatureWithColor {
+  const definition = (type && listFeatures(type).find((feature) => feature.name === name))
+    ?? listFeatures().find((feature) => feature.name === name);
+  return definition ?? { name, ...DEFAULT_FEATURE_STYLE };
+}
+
+export function getFeatureTypes(name: string): ExploreInstanceType[] {
+  return (Object.keys(CONFIG_KEYS) as ExploreInstanceType[])
+    .filter((type) => listFeatures(type).some((feature) => feature.name === name));
+}
+
+// Anchor on the glossary page, e.g. /instances/features#sun-path
+export function featureSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -0,0 +1,105 @@
+/**
+ * Filter URL encoding
+ *
+ * Serializes CatalogFilters and the sort/group view to and from the query
+ * string so a filtered grid can be shared as a link, e.g.
+ * /instances/?type=Showroom&client=JM&include=Sun+Path&units=available&sort=updated
+ * or, for a collection, /instances/?list=Oslo+residential+pitch&ids=a,b,c
+ * Only the query string is touched, so links keep working under basePath.
+ */
+
+import {
+  DEFAULT_CATALOG_FILTERS,
+  DEFAULT_CATALOG_VIEW,
+  SORT_OPTIONS,
+  isGroupKey,
+  isSortKey,
+  type CatalogFilters,
+  type CatalogView,
+} from '@/app/lib/catalog';
+import { isUnitAvailability } from '@/app/lib/units';
+
+const PARAM_QUERY = 'q';
+const PARAM_TYPE = 'type';
+const PARAM_CLIENT = 'client';
+const PARAM_INCLUDE = 'include';
+const PARAM_EXCLUDE = 'exclude';
+const PARAM_AVAILABILITY = 'units';
+const PARAM_IDS = 'ids'; // Comma-separated, keeps long collections readable
+const PARAM_COLLECTION = 'list';
+const PARAM_SORT = 'sort';
+const PARAM_DIRECTION = 'dir';
+const PARAM_GROUP = 'group';
+
+export function filtersToSearchParams(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const query = filters.query.trim();
+  if (query) params.set(PARAM_QUERY, query);
+  if (filters.type !== 'all') params.set(PARAM_TYPE, filters.type);
+  if (filters.client !== 'all') params.set(PARAM_CLIENT, filters.client);
+  filters.includedFeatures.forEach((feature) => params.append(PARAM_INCLUDE, feature));
+  filters.excludedFeatures.forEach((feature) => params.append(PARAM_EXCLUDE, feature));
+  if (filters.availability !== 'all') params.set(PARAM_AVAILABILITY, filters.availability);
+  if (filters.ids.length > 0) {
+    if (filters.collection) params.set(PARAM_COLLECTION, filters.collection);
+    params.set(PARAM_IDS, filters.ids.join(','));
+  }
+  return params;
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): CatalogFilters {
+  const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+  const availability = params.get(PARAM_AVAILABILITY);
+  const ids = unique((params.get(PARAM_IDS) ?? '').split(','));
+  return {
+    query: params.get(PARAM_QUERY) ?? DEFAULT_CATALOG_FILTERS.query,
+    type: params.get(PARAM_TYPE) || DEFAULT_CATALOG_FILTERS.type,
+    client: params.get(PARAM_CLIENT) || DEFAULT_CATALOG_FILTERS.client,
+    includedFeatures: unique(params.getAll(PARAM_INCLUDE)),
+    excludedFeatures: unique(params.getAll(PARAM_EXCLUDE)),
+    availability: isUnitAvailability(availability) ? availability : DEFAULT_CATALOG_FILTERS.availability,
+    ids,
+    collection: ids.length > 0 ? params.get(PARAM_COLLECTION) ?? '' : DEFAULT_CATALOG_FILTERS.collection,
+  };
+}
+
+const defaultDirection = (view: CatalogView) =>
+  SORT_OPTIONS.find((option) => option.value === view.sort)?.defaultDirection ?? 'asc';
+
+export function viewToSearchParams(view: CatalogView, params = new URLSearchParams()): URLSearchParams {
+  if (view.sort !== DEFAULT_CATALOG_VIEW.sort) params.set(PARAM_SORT, view.sort);
+  if (view.direction !== defaultDirection(view)) params.set(PARAM_DIRECTION, view.direction);
+  if (view.group !== DEFAULT_CATALOG_VIEW.group) params.set(PARAM_GROUP, view.group);
+  return params;
+}
+
+export function viewFromSearchParams(params: URLSearchParams): CatalogView {
+  const sort = params.get(PARAM_SORT);
+  const group = params.get(PARAM_GROUP);
+  const view: CatalogView = {
+    ...DEFAULT_CATALOG_VIEW,
+    sort: isSortKey(sort) ? sort : DEFAULT_CATALOG_VIEW.sort,
+    group: isGroupKey(group) ? group : DEFAULT_CATALOG_VIEW.group,
+  };
+  const direction = params.get(PARAM_DIRECTION);
+  view.direction = direction === 'asc' || direction === 'desc' ? direction : defaultDirection(view);
+  return view;
+}
+
+export function readFiltersFromLocation(): CatalogFilters {
+  if (typeof window === 'undefined') return DEFAULT_CATALOG_FILTERS;
+  return filtersFromSearchParams(new URLSearchParams(window.location.search));
+}
+
+export function readViewFromLocation(): CatalogView {
+  if (typeof window === 'undefined') return DEFAULT_CATALOG_VIEW;
+  return viewFromSearchParams(new URLSearchParams(window.location.search));
+}
+
+/**
+ * Build the current page URL for a set of filters (pathname already includes basePath)
+ */
+export function buildFilterUrl(filters: CatalogFilters, view: CatalogView = DEFAULT_CATALOG_VIEW): string {
+  const search = viewToSearchParams(view, filtersToSearchParams(filters)).toString();
+  return `${window.location.pathname}${search ? `?${search}` : ''}`;
+}
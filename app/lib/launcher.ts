@@ -0,0 +1,103 @@
+/**
+ * Embedded project launcher
+ *
+ * Projects open in a full-screen iframe over the current page, so the grid
+ * keeps its filters and scroll position. A site that refuses to be framed
+ * (X-Frame-Options or CSP frame-ancestors) can't be detected from the page:
+ * the browser shows its own error page in the frame and still fires `load`.
+ * So refusals are found ahead of time instead, and those projects open in a
+ * new tab straight away:
+ * - hosts in public/launcher-manifest.json, whose headers are checked at
+ *   build time by `npm run launcher:framing`
+ * - hosts the user reported through "Doesn't load?", remembered in
+ *   localStorage
+ * - links that can't be framed at all (not http(s), or http from an https page)
+ *
+ * A frame that hasn't loaded after LAUNCH_TIMEOUT_MS, or fires `error`, offers
+ * a new tab as well; that covers slow or unreachable sites, not refusals.
+ */
+
+export const LAUNCH_TIMEOUT_MS = 15000;
+
+// Must stay in sync with scripts/check-framing.mjs
+export interface LauncherManifest {
+  version: number;
+  generatedAt: string;
+  refusedHosts: string[];
+}
+
+const SUPPORTED_VERSION = 1;
+
+const BLOCKED_HOSTS_STORAGE_KEY = 'sales_showcase_unembeddable_hosts';
+
+function parseLink(link: string): URL | null {
+  try {
+    return new URL(link, typeof window === 'undefined' ? undefined : window.location.href);
+  } catch {
+    return null;
+  }
+}
+
+export function readBlockedHosts(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(BLOCKED_HOSTS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((host): host is string => typeof host === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember that a host can't be framed, so its projects open in a new tab from now on
+ */
+export function markHostBlocked(link: string): void {
+  const host = parseLink(link)?.host;
+  if (!host) return;
+  const hosts = readBlockedHosts();
+  if (!hosts.includes(host)) {
+    window.localStorage.setItem(BLOCKED_HOSTS_STORAGE_KEY, JSON.stringify([...hosts, host]));
+  }
+}
+
+const manifestCache = new Map<string, Promise<LauncherManifest | null>>();
+
+/**
+ * Fetch launcher-manifest.json once per basePath. Resolves to null when it is
+ * missing, in which case only the hosts reported in this browser are skipped.
+ */
+export function loadLauncherManifest(basePath = ''): Promise<LauncherManifest | null> {
+  const cached = manifestCache.get(basePath);
+  if (cached) return cached;
+
+  const promise = (async () => {
+    try {
+      const response = await fetch(`${basePath}/launcher-manifest.json`);
+      if (!response.ok) return null;
+      const manifest = (await response.json()) as LauncherManifest;
+      if (manifest?.version !== SUPPORTED_VERSION || !Array.isArray(manifest.refusedHosts)) {
+        console.warn(`[Launcher] Ignoring launcher-manifest.json with unsupported version ${manifest?.version}`);
+        return null;
+      }
+      return manifest;
+    } catch {
+      return null;
+    }
+  })();
+
+  manifestCache.set(basePath, promise);
+  return promise;
+}
+
+export function canEmbed(link: string, manifest: LauncherManifest | null): boolean {
+  const url = parseLink(link);
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) return false;
+  // Browsers block http frames inside an https page (mixed content)
+  if (url.protocol === 'http:' && window.location.protocol === 'https:') return false;
+  if (manifest?.refusedHosts.includes(url.host)) return false;
+  return !readBlockedHosts().includes(url.host);
+}
+
+export function openInNewTab(link: string): void {
+  window.open(link, '_blank', 'noopener,noreferrer');
+}
@@ -0,0 +1,253 @@
+/**
+ * Offline sales mode
+ *
+ * public/sw.js keeps the app shell and metadata.json cached and serves them
+ * when the network is down. On top of that, projects can be pinned: their
+ * detail page with the /_next/static files it loads, preview, overview frames
+ * and panorama sample are stored in PROJECT_CACHE, which the service worker
+ * answers from before the network.
+ *
+ * Which projects are pinned, and which URLs belong to each, is kept in
+ * localStorage so the grid can show availability without opening the cache.
+ */
+
+import type { CatalogInstance } from '@/app/lib/types';
+import { cdnAssetUrl, markAssetMissing, orderAssetCandidates, type AssetKind } from '@/app/lib/assets';
+import { assetRequests } from '@/app/lib/request-limiter';
+import { loadAssetManifest, selectProjectAssets } from '@/app/lib/asset-manifest';
+
+// Must match PROJECT_CACHE in public/sw.js
+export const PROJECT_CACHE = 'sales-showcase-projects-v1';
+
+const OFFLINE_STORAGE_KEY = 'sales_showcase_offline_projects';
+// Dispatched on window whenever the pinned projects change in this tab
+export const OFFLINE_CHANGE_EVENT = 'sales-showcase-offline-change';
+
+export interface PinnedProject {
+  id: string;
+  name: string;
+  urls: string[]; // Everything stored in PROJECT_CACHE for this project
+  bytes: number;
+  pinnedAt: number; // ms since epoch
+  complete: boolean; // false when an asset failed to download or was evicted since
+}
+
+export interface PinProgress {
+  done: number;
+  total: number;
+}
+
+// One asset, with the URLs that may serve it in order of preference
+interface AssetSource {
+  kind: AssetKind | 'page' | 'static';
+  urls: string[];
+  required: boolean; // A missing optional asset (e.g. no panorama) doesn't make the project incomplete
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window;
+}
+
+export function readPinnedProjects(): Record<string, PinnedProject> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(OFFLINE_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writePinnedProjects(projects: Record<string, PinnedProject>) {
+  window.localStorage.setItem(OFFLINE_STORAGE_KEY, JSON.stringify(projects));
+  window.dispatchEvent(new Event(OFFLINE_CHANGE_EVENT));
+}
+
+export function isOfflineStorageKey(key: string | null): boolean {
+  return key === OFFLINE_STORAGE_KEY;
+}
+
+// Static files referenced by a page, e.g. <script src="/_next/static/chunks/...">. Must match public/sw.js
+function referencedStaticFiles(html: string, pageUrl: string): string[] {
+  const files = new Set<string>();
+  for (const [, src] of html.matchAll(/(?:src|href)="([^"]*\/_next\/static\/[^"]+)"/g)) {
+    files.add(new URL(src, pageUrl).pathname);
+  }
+  return Array.from(files);
+}
+
+async function collectAssetSources(instance: CatalogInstance, basePath: string): Promise<AssetSource[]> {
+  const projectId = instance.uuid;
+  const projectPath = `${basePath}/projects/${projectId}`;
+  const pagePath = `${basePath}/instances/${instance.id}/`;
+  const image = instance.image && !instance.image.startsWith(basePath) ? `${basePath}${instance.image}` : instance.image;
+
+  const sources: AssetSource[] = [
+    { kind: 'page', urls: [pagePath], required: true },
+    { kind: 'page', urls: [`${pagePath}index.txt`], required: true },
+    { kind: 'preview', urls: [`${basePath}/previews/${projectId}.webp`], required: false },
+    { kind: 'image', urls: image ? [image] : [], required: false },
+    { kind: 'panorama', urls: [`${projectPath}/sample/sample.webp`, `${projectPath}/sample/sample.jpg`], required: false },
+  ];
+
+  // The detail route's chunks aren't part of the precached shell, and without
+  // them the page stays blank offline
+  try {
+    const response = await fetch(pagePath, { cache: 'no-cache' });
+    if (response.ok) {
+      referencedStaticFiles(await response.text(), new URL(pagePath, window.location.href).href).forEach((file) => {
+        sources.push({ kind: 'static', urls: [file], required: true });
+      });
+    }
+  } catch {
+    // The page itself then fails below and the project is marked incomplete
+  }
+
+  // Cards pick one of the generated sizes, so keep all of them
+  const assets = selectProjectAssets(await loadAssetManifest(basePath), projectId);
+  assets?.variants.forEach((variant) => {
+    sources.push({ kind: 'preview', urls: [`${basePath}${variant.src}`], required: false });
+  });
+
+  const indexUrl = `${projectPath}/overview-images.json`;
+  try {
+    const response = await fetch(indexUrl);
+    if (response.ok) {
+      const frames = (await response.json()) as Array<{ url?: string; texture: string; fileName?: string }>;
+      sources.push({ kind: 'overview-index', urls: [indexUrl], required: true });
+      frames.forEach((frame) => {
+        const fileName = frame.fileName || `${frame.texture}_LOD3.webp`;
+        sources.push({
+          kind: 'overview-frame',
+          urls: [`${projectPath}/overview/${fileName}`, frame.url || cdnAssetUrl(projectId, fileName)],
+          required: true,
+        });
+      });
+    }
+  } catch {
+    // No overview frames for this project
+  }
+
+  return sources.filter((source) => source.urls.length > 0);
+}
+
+// Store the first URL of `source` that downloads; returns its URL and size, or null
+async function cacheAssetSource(cache: Cache, projectId: string, source: AssetSource) {
+  const isAppFile = source.kind === 'page' || source.kind === 'static';
+  const urls = isAppFile ? source.urls : orderAssetCandidates(projectId, source.urls);
+
+  for (const url of urls) {
+    try {
+      const response = await assetRequests.run(() => fetch(url, { cache: 'no-cache' }));
+      if (!response.ok) {
+        if (source.kind !== 'page' && source.kind !== 'static' && response.status === 404) {
+          markAssetMissing(url, projectId, source.kind);
+        }
+        continue;
+      }
+      const bytes = (await response.clone().blob()).size;
+      await cache.put(url, response);
+      return { url, bytes };
+    } catch {
+      // Network error or CORS, try the next URL
+    }
+  }
+  return null;
+}
+
+/**
+ * Download everything needed to demo `instance` without a connection
+ */
+export async function pinProject(
+  instance: CatalogInstance,
+  basePath: string,
+  onProgress?: (progress: PinProgress) => void
+): Promise<PinnedProject> {
+  const cache = await caches.open(PROJECT_CACHE);
+  const sources = await collectAssetSources(instance, basePath);
+  const urls: string[] = [];
+  let bytes = 0;
+  let complete = true;
+  let done = 0;
+
+  onProgress?.({ done, total: sources.length });
+  await Promise.all(sources.map(async (source) => {
+    const cached = await cacheAssetSource(cache, instance.uuid, source);
+    if (cached) {
+      urls.push(cached.url);
+      bytes += cached.bytes;
+    } else if (source.required) {
+      complete = false;
+    }
+    onProgress?.({ done: ++done, total: sources.length });
+  }));
+
+  const pinned: PinnedProject = { id: instance.id, name: instance.name, urls, bytes, pinnedAt: Date.now(), complete };
+  writePinnedProjects({ ...readPinnedProjects(), [instance.id]: pinned });
+  return pinned;
+}
+
+export async function unpinProject(id: string): Promise<void> {
+  const projects = readPinnedProjects();
+  const pinned = projects[id];
+  if (!pinned) return;
+
+  // Another pinned project may share a URL (e.g. the same preview); keep those
+  const stillNeeded = new Set(
+    Object.values(projects).filter((project) => project.id !== id).flatMap((project) => project.urls)
+  );
+  const cache = await caches.open(PROJECT_CACHE);
+  await Promise.all(pinned.urls.filter((url) => !stillNeeded.has(url)).map((url) => cache.delete(url)));
+
+  delete projects[id];
+  writePinnedProjects(projects);
+}
+
+export async function unpinAllProjects(): Promise<void> {
+  await caches.delete(PROJECT_CACHE);
+  writePinnedProjects({});
+}
+
+/**
+ * Re-check the cache, since the browser may evict entries under storage pressure
+ */
+export async function verifyPinnedProjects(): Promise<Record<string, PinnedProject>> {
+  const projects = readPinnedProjects();
+  if (Object.keys(projects).length === 0) return projects;
+
+  const cache = await caches.open(PROJECT_CACHE);
+  let changed = false;
+  await Promise.all(Object.values(projects).map(async (project) => {
+    if (!project.complete) return;
+    const matches = await Promise.all(project.urls.map((url) => cache.match(url)));
+    if (matches.some((match) => !match)) {
+      project.complete = false;
+      changed = true;
+    }
+  }));
+
+  if (changed) writePinnedProjects(projects);
+  return projects;
+}
+
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
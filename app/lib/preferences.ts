@@ -0,0 +1,39 @@
+/**
+ * User preferences
+ *
+ * Display settings kept in localStorage per signed-in user, so people sharing
+ * a demo tablet under different logins each keep their own choices.
+ */
+
+export interface UserPreferences {
+  hoverAnimations: boolean; // Play the overview animation when hovering a grid card
+}
+
+const PREFERENCES_STORAGE_PREFIX = 'sales_showcase_preferences:';
+
+function defaultPreferences(): UserPreferences {
+  const reducedMotion = typeof window !== 'undefined'
+    && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  return { hoverAnimations: !reducedMotion };
+}
+
+export function preferencesStorageKey(userId: string): string {
+  return `${PREFERENCES_STORAGE_PREFIX}${userId}`;
+}
+
+export function readPreferences(userId: string | null | undefined): UserPreferences {
+  const defaults = defaultPreferences();
+  if (typeof window === 'undefined' || !userId) return defaults;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(preferencesStorageKey(userId)) ?? '{}');
+    return {
+      hoverAnimations: typeof stored.hoverAnimations === 'boolean' ? stored.hoverAnimations : defaults.hoverAnimations,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function writePreferences(userId: string, preferences: UserPreferences): void {
+  window.localStorage.setItem(preferencesStorageKey(userId), JSON.stringify(preferences));
+}
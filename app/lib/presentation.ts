@@ -0,0 +1,127 @@
+/**
+ * Presentation mode
+ *
+ * /instances/present steps through an ordered list of instances full-screen.
+ * The list is read from the query string with the same ids/list parameters as
+ * a collection link, plus the slide to start on and the auto-advance interval:
+ * /instances/present/?list=Oslo+residential+pitch&ids=a,b,c&slide=2&auto=30
+ *
+ * The speaker notes window (/instances/present/notes) follows the presentation
+ * over a BroadcastChannel and can step it forward and back.
+ */
+
+import { DEFAULT_CATALOG_FILTERS } from '@/app/lib/catalog';
+import { filtersFromSearchParams, filtersToSearchParams } from '@/app/lib/filter-url';
+
+export interface PresentationOptions {
+  ids: string[]; // Slides in order
+  title: string;
+  start: number; // Index of the first slide shown
+  autoAdvance: number; // Seconds per slide, 0 to advance by hand
+}
+
+export type SlideAction =
+  | 'next'
+  | 'previous'
+  | 'first'
+  | 'last'
+  | 'blank'
+  | 'fullscreen'
+  | 'panorama'
+  | 'auto'
+  | 'notes'
+  | 'exit';
+
+// Seconds per slide offered in the controls
+export const AUTO_ADVANCE_OPTIONS = [0, 10, 20, 30, 60];
+
+const PARAM_SLIDE = 'slide'; // 1-based, like the slide counter
+const PARAM_AUTO = 'auto';
+
+export function presentationToSearchParams(options: PresentationOptions): URLSearchParams {
+  const params = filtersToSearchParams({ ...DEFAULT_CATALOG_FILTERS, ids: options.ids, collection: options.title });
+  if (options.start > 0) params.set(PARAM_SLIDE, String(options.start + 1));
+  if (options.autoAdvance > 0) params.set(PARAM_AUTO, String(options.autoAdvance));
+  return params;
+}
+
+export function presentationFromSearchParams(params: URLSearchParams): PresentationOptions {
+  const { ids, collection } = filtersFromSearchParams(params);
+  const slide = Number(params.get(PARAM_SLIDE));
+  const auto = Number(params.get(PARAM_AUTO));
+  return {
+    ids,
+    title: collection,
+    start: Number.isInteger(slide) && slide > 1 ? Math.min(slide, Math.max(ids.length, 1)) - 1 : 0,
+    autoAdvance: Number.isFinite(auto) && auto > 0 ? Math.round(auto) : 0,
+  };
+}
+
+export function readPresentationFromLocation(): PresentationOptions {
+  if (typeof window === 'undefined') return { ids: [], title: '', start: 0, autoAdvance: 0 };
+  return presentationFromSearchParams(new URLSearchParams(window.location.search));
+}
+
+// Presentation clickers send PageDown/PageUp (some send the arrow keys) and "." or "b" to blank the screen
+const KEY_ACTIONS: Record<string, SlideAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  Enter: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  PageUp: 'previous',
+  Backspace: 'previous',
+  Home: 'first',
+  End: 'last',
+  '.': 'blank',
+  b: 'blank',
+  f: 'fullscreen',
+  v: 'panorama',
+  a: 'auto',
+  s: 'notes',
+  Escape: 'exit',
+};
+
+const OPEN_COMBOBOX_KEYS = ['ArrowUp', 'ArrowDown', 'Home', 'End', 'Escape'];
+
+export function getSlideAction(event: KeyboardEvent): SlideAction | null {
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+  const target = event.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+  // Buttons, links and comboboxes use Enter and Space to activate. An open
+  // combobox also takes the keys that move through and close its options; once
+  // closed, its trigger keeps focus and the clicker keys work again.
+  if ((event.key === 'Enter' || event.key === ' ') && target?.closest?.('button, a, [role="combobox"]')) return null;
+  if (OPEN_COMBOBOX_KEYS.includes(event.key) && target?.closest?.('[role="combobox"][aria-expanded="true"], [role="listbox"]')) return null;
+  return KEY_ACTIONS[event.key.length === 1 ? event.key.toLowerCase() : event.key] ?? null;
+}
+
+export const PRESENTATION_CHANNEL = 'sales-showcase-presentation';
+
+export interface PresentationState {
+  ids: string[]; // Slides still available for the presenter's role
+  title: string;
+  index: number;
+  blank: boolean;
+  autoAdvance: number;
+  startedAt: number; // ms since epoch
+  slideStartedAt: number;
+}
+
+// Sent by the presentation ('state') and by the notes window ('action', 'sync')
+export type PresentationMessage =
+  | { type: 'state'; state: PresentationState }
+  | { type: 'action'; action: SlideAction }
+  | { type: 'sync' };
+
+export function openPresentationChannel(): BroadcastChannel | null {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(PRESENTATION_CHANNEL);
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
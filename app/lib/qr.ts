@@ -0,0 +1,509 @@
+/**
+ * QR codes for project links
+ *
+ * Prospects at a fair scan a code to open a project on their own phone. Codes
+ * are encoded here rather than by an online generator, so they also work
+ * offline and no project link leaves the browser. The encoder follows ISO/IEC
+ * 18004: byte mode (UTF-8), the smallest version that fits, and the mask with
+ * the lowest penalty score.
+ *
+ * Codes for public projects point to the showcase's own /go/<id>/ page rather
+ * than the project link itself: the URL is short, so the code stays small and
+ * easy to scan, and it keeps working when a project moves. That page forwards
+ * to the project with the query string, so UTM parameters reach the project's
+ * analytics. /go pages need no sign-in, so private and hidden projects get
+ * none and their codes carry the project link.
+ *
+ * Links can carry UTM parameters for campaign tracking; the last ones used are
+ * kept in localStorage, since a whole fair usually shares one campaign.
+ */
+
+import type { CatalogInstance } from '@/app/lib/types';
+import { getBasePath } from '@/app/lib/utils';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Modules indexed [y][x], true for dark
+export type QrMatrix = boolean[][];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, ecl: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecl][version] * ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Data codewords for the text in byte mode, padded to the capacity of the version
+ */
+function encodeData(bytes: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacity = dataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/**
+ * Splits the data into blocks, adds error correction to each and interleaves them
+ */
+function addErrorCorrection(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecl][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so all blocks line up while interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number, private readonly ecl: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        // These corners already hold finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number) {
+    const { size } = this;
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Zig-zags two columns at a time from the bottom right, skipping the vertical timing pattern
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.isFunction[y][x] || bit >= codewords.length * 8) continue;
+          this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  // Applying the same mask twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    const finderLike = [true, false, true, true, true, false, true];
+    const lightAt = (line: boolean[], from: number, to: number) => {
+      for (let i = from; i < to; i++) if (i >= 0 && i < size && line[i]) return false;
+      return true;
+    };
+    const scoreLine = (line: boolean[]) => {
+      for (let start = 0, i = 1; i <= size; i++) {
+        if (i === size || line[i] !== line[start]) {
+          if (i - start >= 5) score += 3 + (i - start - 5);
+          start = i;
+        }
+      }
+      for (let i = 0; i + 7 <= size; i++) {
+        if (finderLike.every((dark, k) => line[i + k] === dark) && (lightAt(line, i - 4, i) || lightAt(line, i + 7, i + 11))) {
+          score += 40;
+        }
+      }
+    };
+
+    for (let y = 0; y < size; y++) scoreLine(modules[y]);
+    for (let x = 0; x < size; x++) scoreLine(modules.map((row) => row[x]));
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++;
+        if (x + 1 < size && y + 1 < size) {
+          const color = modules[y][x];
+          if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+        }
+      }
+    }
+    const total = size * size;
+    score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+    return score;
+  }
+}
+
+function utf8Bytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+/**
+ * Encodes text as a QR code. Throws when the text doesn't fit in the largest version.
+ */
+export function encodeQr(text: string, ecl: QrErrorCorrection = 'M'): QrMatrix {
+  const bytes = utf8Bytes(text);
+  let version = MIN_VERSION;
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > dataCodewords(version, ecl) * 8) {
+    if (++version > MAX_VERSION) throw new Error('Link is too long for a QR code');
+  }
+
+  const builder = new QrBuilder(version, ecl);
+  builder.drawFunctionPatterns();
+  builder.drawCodewords(addErrorCorrection(encodeData(bytes, version, ecl), version, ecl));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask);
+    builder.drawFormatBits(mask);
+    const penalty = builder.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    builder.applyMask(mask);
+  }
+  builder.applyMask(bestMask);
+  builder.drawFormatBits(bestMask);
+  return builder.modules;
+}
+
+// Light modules scanners expect around the code
+export const QR_QUIET_ZONE = 4;
+
+/**
+ * SVG markup for a code, one path for all dark modules. Used both for display
+ * and for the downloadable file, so the two never differ.
+ */
+export function qrToSvg(matrix: QrMatrix, { dark = '#000000', light = '#ffffff' }: { dark?: string; light?: string } = {}): string {
+  const size = matrix.length + QR_QUIET_ZONE * 2;
+  const path = matrix
+    .flatMap((row, y) => row.map((isDark, x) => (isDark ? `M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="${light}"/>` +
+    `<path d="${path}" fill="${dark}"/>` +
+    '</svg>'
+  );
+}
+
+/**
+ * PNG of a code, scale pixels per module
+ */
+export function qrToPngBlob(matrix: QrMatrix, scale = 10): Promise<Blob> {
+  const size = (matrix.length + QR_QUIET_ZONE * 2) * scale;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas is not supported in this browser'));
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = '#000000';
+  matrix.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) context.fillRect((x + QR_QUIET_ZONE) * scale, (y + QR_QUIET_ZONE) * scale, scale, scale);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to create PNG'))), 'image/png');
+  });
+}
+
+export interface UtmParams {
+  source: string;
+  medium: string;
+  campaign: string;
+}
+
+export const DEFAULT_UTM: UtmParams = { source: 'sales-showcase', medium: 'qr', campaign: '' };
+
+const QR_SETTINGS_STORAGE_KEY = 'sales_showcase_qr_settings';
+// Dispatched on window whenever the settings change in this tab
+export const QR_SETTINGS_CHANGE_EVENT = 'sales-showcase-qr-settings-change';
+
+export interface QrSettings {
+  utmEnabled: boolean;
+  utm: UtmParams;
+}
+
+export const DEFAULT_QR_SETTINGS: QrSettings = { utmEnabled: false, utm: DEFAULT_UTM };
+
+export function readQrSettings(): QrSettings {
+  if (typeof window === 'undefined') return DEFAULT_QR_SETTINGS;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(QR_SETTINGS_STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_QR_SETTINGS;
+    return {
+      utmEnabled: stored.utmEnabled === true,
+      utm: { ...DEFAULT_UTM, ...stored.utm },
+    };
+  } catch {
+    return DEFAULT_QR_SETTINGS;
+  }
+}
+
+export function writeQrSettings(settings: QrSettings): void {
+  window.localStorage.setItem(QR_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(QR_SETTINGS_CHANGE_EVENT));
+}
+
+export function isQrSettingsStorageKey(key: string | null): boolean {
+  return key === QR_SETTINGS_STORAGE_KEY;
+}
+
+/**
+ * Whether app/go/[id] exports a short link page for the instance
+ */
+export function hasShortLink(instance: CatalogInstance): boolean {
+  return !!instance.link && instance.status !== 'Private' && !instance.hidden;
+}
+
+/**
+ * Link a project's code points to: its short link when it has one, else the project link
+ */
+export function qrTarget(instance: CatalogInstance): string {
+  if (!hasShortLink(instance)) return instance.link ?? '';
+  return `${window.location.origin}${getBasePath()}/go/${encodeURIComponent(instance.id)}/`;
+}
+
+/**
+ * Project link with the short link's query parameters added, overwriting
+ * any with the same name
+ */
+export function forwardQueryParams(link: string, search: string): string {
+  try {
+    const url = new URL(link);
+    new URLSearchParams(search).forEach((value, key) => url.searchParams.set(key, value));
+    return url.toString();
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * The link a code points to, with UTM parameters when enabled. Empty
+ * parameters are left out; existing ones on the link are overwritten.
+ */
+export function buildQrLink(link: string, settings: QrSettings): string {
+  if (!settings.utmEnabled) return link;
+  try {
+    const url = new URL(link);
+    (Object.entries(settings.utm) as [keyof UtmParams, string][]).forEach(([key, value]) => {
+      if (value.trim()) url.searchParams.set(`utm_${key}`, value.trim());
+    });
+    return url.toString();
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * File name for a downloaded code, e.g. "acme-tower-qr.png"
+ */
+export function qrFileName(name: string, extension: 'png' | 'svg'): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}-qr.${extension}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Request limiter
+ *
+ * Caps how many asset requests run at once across the page. A grid of cards
+ * preloading animation frames would otherwise queue hundreds of requests
+ * ahead of the images the user is actually looking at.
+ */
+
+export interface RequestLimiter {
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export function createRequestLimiter(maxConcurrent: number): RequestLimiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= maxConcurrent) return;
+    const start = queue.shift();
+    if (!start) return;
+    active++;
+    start();
+  };
+
+  return {
+    run(task) {
+      return new Promise((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        });
+        next();
+      });
+    },
+  };
+}
+
+// Shared by every card and viewer that preloads overview frames
+export const assetRequests = createRequestLimiter(6);
@@ -0,0 +1,56 @@
+/**
+ * Roles
+ *
+ * Each login carries a role that decides which parts of the catalog it sees.
+ * Policies are read from the "roles" section of auth.config.json; roles missing
+ * from the config fall back to the most restrictive policy.
+ */
+
+import authConfig from '@/auth.config.json';
+import type { CatalogInstance } from '@/app/lib/types';
+
+export type Role = 'sales' | 'partner' | 'admin';
+
+export const ROLES: Role[] = ['sales', 'partner', 'admin'];
+
+export const DEFAULT_ROLE: Role = 'sales';
+
+export interface RolePolicy {
+  showPrivate: boolean; // List instances with status "Private"
+  showHidden: boolean; // List instances flagged as hidden
+  launchPrivate: boolean; // Allow opening the Explore link of Private instances
+  showFeaturesBehindLogin: boolean; // List featuresBehindLogin on cards and detail pages
+}
+
+const RESTRICTED_POLICY: RolePolicy = {
+  showPrivate: false,
+  showHidden: false,
+  launchPrivate: false,
+  showFeaturesBehindLogin: false,
+};
+
+const configuredPolicies = (authConfig.roles ?? {}) as Partial<Record<Role, Partial<RolePolicy>>>;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function getRolePolicy(role: Role | null | undefined): RolePolicy {
+  if (!role) return RESTRICTED_POLICY;
+  return { ...RESTRICTED_POLICY, ...configuredPolicies[role] };
+}
+
+export function isInstanceVisible(instance: CatalogInstance, policy: RolePolicy): boolean {
+  if (instance.hidden && !policy.showHidden) return false;
+  if (instance.status === 'Private' && !policy.showPrivate) return false;
+  return true;
+}
+
+export function canLaunchInstance(instance: CatalogInstance, policy: RolePolicy): boolean {
+  if (!instance.link) return false;
+  return instance.status !== 'Private' || policy.launchPrivate;
+}
+
+export function selectVisibleInstances(instances: CatalogInstance[], policy: RolePolicy): CatalogInstance[] {
+  return instances.filter((instance) => isInstanceVisible(instance, policy));
+}
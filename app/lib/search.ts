@@ -0,0 +1,277 @@
+/**
+ * Catalog search
+ *
+ * An in-memory index over the searchable fields of every instance, built once
+ * per catalog. Text is folded (case, diacritics, æ/ø/å) so "Hansefellåsen"
+ * matches "hansefelassen"; terms match exactly, by prefix, or within a small
+ * edit distance. Queries can scope terms to a field and quote phrases:
+ *
+ *   client:JM feature:"Sun Path" oslo
+ *
+ * Every term must match; results are ranked by field weight and match quality.
+ */
+
+import type { CatalogInstance } from '@/app/lib/types';
+
+export type SearchField = 'name' | 'client' | 'slug' | 'features' | 'type' | 'description' | 'id';
+
+export interface SearchHit {
+  instance: CatalogInstance;
+  score: number;
+  // Folded tokens that matched, per field - used to highlight results
+  matches: Partial<Record<SearchField, Set<string>>>;
+  // Feature names that matched at least one term
+  matchedFeatures: string[];
+}
+
+export interface SearchResults {
+  hits: SearchHit[]; // Best match first
+  byId: Map<string, SearchHit>;
+}
+
+export interface SearchIndex {
+  search(query: string): SearchResults | null; // null for an empty query
+}
+
+interface QueryTerm {
+  field: SearchField | null; // null = any field
+  tokens: string[]; // Several tokens for a quoted phrase
+  phrase: boolean;
+}
+
+interface IndexedField {
+  folded: string; // Whole field value, folded, for phrase matching
+  tokens: string[];
+}
+
+interface IndexedInstance {
+  instance: CatalogInstance;
+  fields: Record<SearchField, IndexedField>;
+  features: Array<{ name: string; folded: string }>;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  client: 3,
+  slug: 3,
+  features: 2,
+  type: 1,
+  description: 1,
+  id: 1,
+};
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  name: 'name',
+  client: 'client',
+  slug: 'slug',
+  link: 'slug',
+  feature: 'features',
+  features: 'features',
+  type: 'type',
+  description: 'description',
+  desc: 'description',
+  id: 'id',
+  uuid: 'id',
+};
+
+// Ids are opaque, so only exact and prefix matches count there
+const FUZZY_FIELDS = new Set<SearchField>(['name', 'client', 'slug', 'features', 'type', 'description']);
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const FUZZY_SCORE = 0.5;
+
+const SPECIAL_LETTERS: Record<string, string> = { æ: 'ae', ø: 'o', å: 'a', ß: 'ss', œ: 'oe', đ: 'd', ł: 'l' };
+
+/**
+ * Lower-case and strip diacritics so Norwegian and other accented names match plain ASCII input
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[æøåßœđł]/g, (letter) => SPECIAL_LETTERS[letter] ?? letter)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function linkSlug(link: string): string {
+  try {
+    return new URL(link).pathname.split('/').filter(Boolean).join(' ');
+  } catch {
+    return link;
+  }
+}
+
+// Damerau-Levenshtein distance with an early exit once `max` is exceeded
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (i > 0 && rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+}
+
+const maxTypos = (token: string) => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+function scoreToken(queryToken: string, fieldToken: string, fuzzy: boolean): number {
+  if (fieldToken === queryToken) return EXACT_SCORE;
+  if (queryToken.length >= 2 && fieldToken.startsWith(queryToken)) return PREFIX_SCORE;
+  if (fuzzy) {
+    const typos = maxTypos(queryToken);
+    if (typos > 0 && editDistance(queryToken, fieldToken, typos) <= typos) return FUZZY_SCORE;
+  }
+  return 0;
+}
+
+/**
+ * Split a query into terms, honouring field:value prefixes and "quoted phrases"
+ */
+export function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const pattern = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, prefix, quoted, bare] = match;
+    let field: SearchField | null = null;
+    let value = quoted ?? bare ?? '';
+
+    if (prefix) {
+      const alias = FIELD_ALIASES[prefix.toLowerCase()];
+      if (alias) {
+        field = alias;
+      } else {
+        // Not a known field, treat "foo:bar" as plain text
+        value = `${prefix}:${value}`;
+      }
+    }
+
+    const tokens = tokenize(value);
+    if (tokens.length === 0) continue;
+    terms.push({ field, tokens, phrase: quoted !== undefined && tokens.length > 1 });
+  }
+
+  return terms;
+}
+
+function indexInstance(instance: CatalogInstance): IndexedInstance {
+  const field = (text: string): IndexedField => ({ folded: tokenize(text).join(' '), tokens: Array.from(new Set(tokenize(text))) });
+  return {
+    instance,
+    fields: {
+      name: field(instance.name),
+      client: field(instance.client),
+      slug: field(linkSlug(instance.link)),
+      features: field(instance.features.join(' ')),
+      type: field(instance.type),
+      description: field(instance.description ?? ''),
+      id: field(`${instance.id} ${instance.uuid}`),
+    },
+    features: instance.features.map((name) => ({ name, folded: tokenize(name).join(' ') })),
+  };
+}
+
+/**
+ * Score one term against an instance, recording matched tokens. Returns 0 when the term doesn't match.
+ */
+function scoreTerm(entry: IndexedInstance, term: QueryTerm, matches: SearchHit['matches']): number {
+  const fields = term.field ? [term.field] : (Object.keys(FIELD_WEIGHTS) as SearchField[]);
+  let best = 0;
+
+  fields.forEach((fieldName) => {
+    const field = entry.fields[fieldName];
+    const matched: string[] = [];
+    let score = 0;
+
+    if (term.phrase) {
+      const phrase = term.tokens.join(' ');
+      // Per feature, so a phrase can't run from the end of one feature into the next
+      const texts = fieldName === 'features' ? entry.features.map((feature) => feature.folded) : [field.folded];
+      if (texts.some((text) => ` ${text} `.includes(` ${phrase} `))) {
+        score = EXACT_SCORE;
+        matched.push(...term.tokens);
+      } else if (texts.some((text) => ` ${text}`.includes(` ${phrase}`))) {
+        // Prefix match: the phrase starts at a word, its last word may be cut short
+        score = PREFIX_SCORE;
+        matched.push(...term.tokens);
+      }
+    } else {
+      const fuzzy = FUZZY_FIELDS.has(fieldName);
+      field.tokens.forEach((token) => {
+        const tokenScore = scoreToken(term.tokens[0], token, fuzzy);
+        if (tokenScore > 0) {
+          matched.push(token);
+          score = Math.max(score, tokenScore);
+        }
+      });
+    }
+
+    if (score > 0) {
+      const set = matches[fieldName] ?? new Set<string>();
+      matched.forEach((token) => set.add(token));
+      matches[fieldName] = set;
+      best = Math.max(best, score * FIELD_WEIGHTS[fieldName]);
+    }
+  });
+
+  return best;
+}
+
+export function createSearchIndex(instances: CatalogInstance[]): SearchIndex {
+  const entries = instances.map(indexInstance);
+
+  return {
+    search(query) {
+      // Unquoted words that fold into several tokens (e.g. "3D-tour") match each token on its own; quoted phrases stay one term
+      const terms = parseQuery(query).flatMap((term) =>
+        term.phrase || term.tokens.length === 1
+          ? [term]
+          : term.tokens.map((token) => ({ field: term.field, tokens: [token], phrase: false }))
+      );
+      if (terms.length === 0) return null;
+
+      const hits: SearchHit[] = [];
+      entries.forEach((entry) => {
+        const matches: SearchHit['matches'] = {};
+        let total = 0;
+        for (const term of terms) {
+          const score = scoreTerm(entry, term, matches);
+          if (score === 0) return;
+          total += score;
+        }
+
+        const featureTokens = matches.features;
+        const matchedFeatures = featureTokens
+          ? entry.features
+              .filter((feature) => feature.folded.split(' ').some((token) => featureTokens.has(token)))
+              .map((feature) => feature.name)
+          : [];
+
+        hits.push({ instance: entry.instance, score: total, matches, matchedFeatures });
+      });
+
+      hits.sort((a, b) => b.score - a.score || a.instance.name.localeCompare(b.instance.name));
+      return { hits, byId: new Map(hits.map((hit) => [hit.instance.id, hit])) };
+    },
+  };
+}
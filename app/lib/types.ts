@@ -53,11 +53,32 @@ export interface ExploreInstance {
   status?: "Public" | "Private";
 }
 
+// Normalized catalog entry as served by public/metadata.json (see app/lib/catalog.ts)
+// Legacy fields are filled in during validation, so pages never have to guess defaults
+export interface CatalogInstance extends Omit<ExploreInstance, 'createdAt' | 'screenshot'> {
+  uuid: string;
+  client: string;
+  // Card preview path relative to the site root, or null when no preview exists
+  image: string | null;
+  active: boolean;
+  isShowcase: boolean;
+  createdAt?: string;
+}
+
+// Which optional project assets exist in public/ for an instance (resolved at build time)
+export interface InstanceAssets {
+  hasPreview: boolean;
+  hasOverviewImages: boolean;
+  // Path of the 360° sample relative to the site root, e.g. /projects/<id>/sample/sample.webp
+  panorama: string | null;
+}
+
 export interface FeatureWithColor {
   name: string;
   color: string;
   icon?: string; // Icon name from Tabler icons (e.g., "IconHome", "IconSettings")
   textColor?: string; // Optional text color (e.g., "#0A082D" for dark, "white" for light)
+  description?: string; // Shown in the feature glossary
 }
 
 export interface FeatureConfig {
@@ -74,6 +95,7 @@ export interface Client {
   logo?: string; // base64 or file path
   favicon?: string; // URL or file path
   website?: string; // URL to fetch favicon from
+  aliases?: string[]; // Other spellings used in metadata.json, e.g. "PEAB" for "Peab"
 }
 
 export interface ClientConfig {
@@ -0,0 +1,105 @@
+/**
+ * Unit availability
+ *
+ * Unit Finder entries carry unit counts from the API scan (totalUnits,
+ * soldUnits, availableUnits and, for projects built in several steps, one
+ * groupsStats entry per build step). Units that are neither sold nor
+ * available (reserved, not yet released) are reported as "other".
+ */
+
+import type { CatalogInstance } from '@/app/lib/types';
+import { getClient } from '@/app/lib/clients';
+
+export interface UnitStats {
+  total: number;
+  sold: number;
+  available: number;
+  other: number;
+  sellThrough: number; // sold / total, 0..1
+}
+
+export type UnitAvailability = 'all' | 'available' | 'sold-out' | 'no-data';
+
+export const UNIT_AVAILABILITY_OPTIONS: Array<{ value: UnitAvailability; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'available', label: 'Has available units' },
+  { value: 'sold-out', label: 'Sold out' },
+  { value: 'no-data', label: 'No unit data' },
+];
+
+export const isUnitAvailability = (value: unknown): value is UnitAvailability =>
+  UNIT_AVAILABILITY_OPTIONS.some((option) => option.value === value);
+
+function toUnitStats(total: number | undefined, sold = 0, available = 0): UnitStats | null {
+  // Older scans only recorded sold and available units
+  const units = total ?? sold + available;
+  if (units <= 0) return null;
+  return {
+    total: units,
+    sold,
+    available,
+    other: Math.max(0, units - sold - available),
+    sellThrough: Math.min(1, sold / units),
+  };
+}
+
+export function getUnitStats(instance: CatalogInstance): UnitStats | null {
+  return toUnitStats(instance.totalUnits, instance.soldUnits, instance.availableUnits);
+}
+
+/**
+ * One entry per build step, in order. Empty unless the project has more than one group.
+ */
+export function getGroupUnitStats(instance: CatalogInstance): UnitStats[] {
+  return (instance.groupsStats ?? [])
+    .map((group) => toUnitStats(group.totalUnits, group.soldUnits, group.availableUnits))
+    .filter((stats): stats is UnitStats => stats !== null);
+}
+
+export function matchesUnitAvailability(instance: CatalogInstance, availability: UnitAvailability): boolean {
+  if (availability === 'all') return true;
+  const stats = getUnitStats(instance);
+  if (availability === 'no-data') return stats === null;
+  if (!stats) return false;
+  return availability === 'available' ? stats.available > 0 : stats.available === 0;
+}
+
+export interface UnitSummary extends UnitStats {
+  instances: number; // Instances with unit data
+}
+
+export function summarizeUnits(instances: CatalogInstance[]): UnitSummary {
+  const summary = { total: 0, sold: 0, available: 0, other: 0, instances: 0 };
+  instances.forEach((instance) => {
+    const stats = getUnitStats(instance);
+    if (!stats) return;
+    summary.total += stats.total;
+    summary.sold += stats.sold;
+    summary.available += stats.available;
+    summary.other += stats.other;
+    summary.instances++;
+  });
+  return { ...summary, sellThrough: summary.total > 0 ? summary.sold / summary.total : 0 };
+}
+
+export interface ClientUnitSummary extends UnitSummary {
+  client: string;
+}
+
+/**
+ * Totals per client (aliases merged), largest portfolio first. Instances without unit data are left out.
+ */
+export function summarizeUnitsByClient(instances: CatalogInstance[]): ClientUnitSummary[] {
+  const byClient = new Map<string, CatalogInstance[]>();
+  instances.forEach((instance) => {
+    if (!getUnitStats(instance)) return;
+    const client = instance.client ? getClient(instance.client).name : 'No client';
+    byClient.set(client, [...(byClient.get(client) ?? []), instance]);
+  });
+  return Array.from(byClient, ([client, clientInstances]) => ({ client, ...summarizeUnits(clientInstances) }))
+    .sort((a, b) => b.total - a.total || a.client.localeCompare(b.client));
+}
+
+export function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
@@ -5,9 +5,10 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// On GitHub Pages the app runs under /explore-instances-sales
+export const GITHUB_PAGES_BASE_PATH = '/explore-instances-sales';
 
-
-
-
-
-
+export function getBasePath(): string {
+  if (typeof window === 'undefined') return '';
+  return window.location.pathname.startsWith(GITHUB_PAGES_BASE_PATH) ? GITHUB_PAGES_BASE_PATH : '';
+}
@@ -6,46 +6,48 @@
   import { Input } from '@/components/ui/input';
   import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
   import { Alert, AlertDescription } from '@/components/ui/alert';
+  import { getBasePath } from '@/app/lib/utils';
+  import { hasUserCredentials } from '@/app/lib/auth';
+  import { useAuth } from '@/app/components/auth-provider';
 
   export default function LoginPage() {
+    const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
+    const [remember, setRemember] = useState(false);
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
     const [lastUpdated, setLastUpdated] = useState('');
-
-    const getBasePath = () => {
-      if (typeof window === 'undefined') return '';
-      // On GitHub Pages the app runs under /explore-instances-sales
-      return window.location.pathname.startsWith('/explore-instances-sales') ? '/explore-instances-sales' : '';
-    };
+    const { status, signIn } = useAuth();
 
     useEffect(() => {
       // Set last updated timestamp on client only
       setLastUpdated(new Date().toLocaleString());
+    }, []);
 
+    useEffect(() => {
       // Check if already authenticated
-      if (typeof window !== 'undefined' && window.localStorage.getItem('sales_showcase_auth') === 'true') {
-        const basePath = getBasePath();
-        window.location.replace(basePath + '/instances');
+      if (status === 'authenticated') {
+        window.location.replace(getBasePath() + '/instances');
       }
-    }, []);
+    }, [status]);
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
       setError('');
       setLoading(true);
 
-      // Simple client-side auth
-      if (password === 'plyo-2026') {
-        if (typeof window !== 'undefined') {
-          window.localStorage.setItem('sales_showcase_auth', 'true');
+      try {
+        const session = await signIn(username, password, { remember });
+        if (session) {
+          window.location.replace(getBasePath() + '/instances');
+          return;
         }
-        const basePath = getBasePath();
-        window.location.replace(basePath + '/instances');
-      } else {
-        setError('Invalid password');
-        setLoading(false);
+        setError(username ? 'Invalid username or password' : 'Invalid password');
+      } catch (error) {
+        console.error('Login failed:', error);
+        setError('Login is not available in this browser');
       }
+      setLoading(false);
     };
 
     return (
@@ -104,18 +106,39 @@
             </CardHeader>
             <CardContent className="pb-8">
               <form onSubmit={handleSubmit} className="space-y-4">
+                {hasUserCredentials() && (
+                  <Input
+                    type="text"
+                    placeholder="Username (leave empty for team password)"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                    className="bg-[#1F1D4D] border-white/10 text-white placeholder:text-white/30 h-12 focus:ring-[#8027F4] focus:border-[#8027F4] transition-all"
+                  />
+                )}
                 <div className="relative">
                   <Input
                     type="password"
                     placeholder="Password"
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
                     className="bg-[#1F1D4D] border-white/10 text-white placeholder:text-white/30 h-12 focus:ring-[#8027F4] focus:border-[#8027F4] transition-all"
                     autoFocus
                   />
                   <KeyRound className="absolute right-3 top-3.5 h-5 w-5 text-white/20" />
                 </div>
 
+                <label className="flex items-center gap-2 text-sm text-white/60 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={(e) => setRemember(e.target.checked)}
+                    className="h-4 w-4 rounded border-white/20 bg-[#1F1D4D] accent-[#8027F4]"
+                  />
+                  Remember this device
+                </label>
+
                 {error && (
                   <Alert variant="destructive" className="bg-red-500/10 border-red-500/20 text-red-400">
                     <AlertCircle className="h-4 w-4" />
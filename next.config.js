@@ -8,6 +8,10 @@
       unoptimized: true,
     },
     trailingSlash: true,
+    env: {
+      // Names the service worker caches, see public/sw.js
+      NEXT_PUBLIC_BUILD_ID: process.env.GITHUB_SHA?.slice(0, 12) || String(Date.now()),
+    },
     productionBrowserSourceMaps: false,
     webpack: (config) => {
       config.resolve.fallback = {
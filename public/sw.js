@@ -0,0 +1,146 @@
+/**
+ * Service worker for offline sales mode
+ *
+ * - Precaches the app shell (pages, their RSC payloads and the /_next/static
+ *   files they reference), metadata.json and catalog-changelog.json on install
+ * - Serves /_next/static cache-first, since those files are content-hashed
+ * - Serves pages and both catalog files network-first, falling back to the cache
+ * - Answers from the pinned-projects cache (filled by the page, see
+ *   app/lib/offline.ts) before going to the network for anything else
+ *
+ * Registered from app/components/offline.tsx with the basePath as its scope
+ * and the build id as ?build=. The shell and runtime caches are named after
+ * the build, so every deploy installs a fresh worker and activate drops the
+ * previous build's hashed chunks instead of keeping them forever.
+ */
+
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'dev';
+const SHELL_CACHE = `sales-showcase-shell-${BUILD_ID}`;
+const RUNTIME_CACHE = `sales-showcase-runtime-${BUILD_ID}`;
+// Must match PROJECT_CACHE in app/lib/offline.ts. Not per build: pinned pages
+// are stored together with the chunks they load, so they keep working
+const PROJECT_CACHE = 'sales-showcase-projects-v1';
+const CURRENT_CACHES = [SHELL_CACHE, RUNTIME_CACHE, PROJECT_CACHE];
+
+const SHELL_PAGES = ['', 'login/', 'instances/', 'instances/offline/', 'instances/changelog/', 'instances/units/', 'instances/features/', 'instances/collections/', 'instances/present/', 'instances/present/notes/', 'instances/compare/', 'instances/qr-sheet/', 'clients/'];
+const CATALOG_FILES = ['metadata.json', 'catalog-changelog.json', 'clients-manifest.json', 'launcher-manifest.json'];
+
+const scopeUrl = new URL(self.registration.scope);
+const scopePath = scopeUrl.pathname.replace(/\/$/, '');
+
+function shellUrls() {
+  const pages = SHELL_PAGES.map((page) => `${scopePath}/${page}`);
+  return [
+    ...pages,
+    // Client-side navigation fetches the RSC payload instead of the HTML
+    ...pages.map((page) => `${page}index.txt`),
+    ...CATALOG_FILES.map((file) => `${scopePath}/${file}`),
+  ];
+}
+
+function isCatalogFile(pathname) {
+  return CATALOG_FILES.some((file) => pathname === `${scopePath}/${file}`);
+}
+
+// Static files referenced by a page, e.g. <script src="/_next/static/chunks/...">. Must match app/lib/offline.ts
+function referencedStaticFiles(html) {
+  const files = new Set();
+  const pattern = /(?:src|href)="([^"]*\/_next\/static\/[^"]+)"/g;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    files.add(new URL(match[1], scopeUrl).pathname);
+  }
+  return Array.from(files);
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const staticFiles = new Set();
+
+  await Promise.all(shellUrls().map(async (url) => {
+    try {
+      const response = await fetch(url, { cache: 'no-cache' });
+      if (!response.ok) return;
+      if (url.endsWith('/')) {
+        referencedStaticFiles(await response.clone().text()).forEach((file) => staticFiles.add(file));
+      }
+      await cache.put(url, response);
+    } catch (error) {
+      console.warn('[ServiceWorker] Failed to precache', url, error);
+    }
+  }));
+
+  await Promise.all(Array.from(staticFiles).map((file) =>
+    cache.add(file).catch((error) => console.warn('[ServiceWorker] Failed to precache', file, error))
+  ));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter((name) => name.startsWith('sales-showcase-') && !CURRENT_CACHES.includes(name))
+        .map((name) => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    // Unknown page while offline: fall back to the grid so the app still starts
+    if (request.mode === 'navigate') {
+      const shell = await caches.match(`${scopePath}/instances/`);
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+async function pinnedOrNetwork(request) {
+  const projects = await caches.open(PROJECT_CACHE);
+  const pinned = await projects.match(request, { ignoreSearch: true });
+  return pinned ?? fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (sameOrigin && url.pathname.startsWith(`${scopePath}/_next/static/`)) {
+    event.respondWith(cacheFirst(request));
+  } else if (sameOrigin && (request.mode === 'navigate' || url.pathname.endsWith('/index.txt') || isCatalogFile(url.pathname))) {
+    // caches.match in the fallback also finds pages pinned with their project
+    event.respondWith(networkFirst(request));
+  } else {
+    event.respondWith(pinnedOrNetwork(request));
+  }
+});
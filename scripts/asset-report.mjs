@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+/**
+ * Cross-check public/metadata.json against the assets in public/
+ *
+ * Usage:
+ *   npm run assets:report
+ *   npm run assets:report -- --format json --output asset-report.json
+ *   npm run assets:report -- --strict
+ *
+ * Per instance it checks for a card preview, an overview image set and a
+ * sample panorama, and whether every file referenced by `image` and
+ * overview-images.json exists. It also lists project folders, previews and
+ * overview frames that no catalog entry uses.
+ *
+ * Missing and orphaned assets are warnings; references to files that don't
+ * exist (and unreadable JSON) are errors. With --strict the command exits
+ * with status 1 when there is at least one error.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+const PROJECTS_DIR = path.join(PUBLIC_DIR, 'projects');
+const PREVIEWS_DIR = path.join(PUBLIC_DIR, 'previews');
+const FORMATS = ['markdown', 'json'];
+
+function parseArgs(argv) {
+  const args = { format: 'markdown', output: null, strict: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--strict') args.strict = true;
+    else if (argv[i] === '--format') args.format = argv[++i];
+    else if (argv[i] === '--output') args.output = argv[++i];
+  }
+  return args;
+}
+
+async function exists(file) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function listDir(dir) {
+  try {
+    return await fs.readdir(dir);
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(file) {
+  try {
+    return { data: JSON.parse(await fs.readFile(file, 'utf8')) };
+  } catch (error) {
+    return { error: error.code === 'ENOENT' ? null : error.message };
+  }
+}
+
+function publicPath(file) {
+  return path.relative(PUBLIC_DIR, file).split(path.sep).join('/');
+}
+
+async function checkInstance(instance, issues) {
+  const uuid = instance.uuid || instance.id;
+  const projectDir = path.join(PROJECTS_DIR, uuid);
+  const issue = (severity, check, message) => issues.push({ severity, check, id: uuid, name: instance.name, message });
+
+  const preview = path.join(PREVIEWS_DIR, `${uuid}.webp`);
+  const hasPreview = await exists(preview);
+  if (!hasPreview) issue('warning', 'preview', `No card preview at ${publicPath(preview)}`);
+
+  if (instance.image && !(await exists(path.join(PUBLIC_DIR, instance.image)))) {
+    issue('error', 'image', `"image" points at ${instance.image}, which doesn't exist`);
+  }
+
+  const indexFile = path.join(projectDir, 'overview-images.json');
+  const overview = await readJson(indexFile);
+  let referencedFrames = new Set();
+  let frameCount = 0;
+  let localFrames = 0;
+
+  if (overview.error) {
+    issue('error', 'overview', `${publicPath(indexFile)} can't be read: ${overview.error}`);
+  } else if (!overview.data) {
+    issue('warning', 'overview', 'No overview image set');
+  } else if (!Array.isArray(overview.data)) {
+    issue('error', 'overview', `${publicPath(indexFile)} is not an array`);
+  } else {
+    frameCount = overview.data.length;
+    referencedFrames = new Set(overview.data.map((entry) => entry.fileName || `${entry.texture}_LOD3.webp`));
+    const files = await listDir(path.join(projectDir, 'overview'));
+
+    if (!files) {
+      // The viewer falls back to the CDN, so this isn't an error
+      issue('warning', 'overview', `Overview frames are not in the repository (${frameCount} on the CDN only)`);
+    } else {
+      const present = new Set(files);
+      const dangling = [...referencedFrames].filter((fileName) => !present.has(fileName));
+      localFrames = referencedFrames.size - dangling.length;
+      if (dangling.length > 0) {
+        issue('error', 'overview', `overview-images.json references ${dangling.length} missing frame(s): ${dangling.slice(0, 3).join(', ')}${dangling.length > 3 ? ', ...' : ''}`);
+      }
+      const orphaned = files.filter((fileName) => !referencedFrames.has(fileName));
+      if (orphaned.length > 0) {
+        issue('warning', 'orphan', `${orphaned.length} file(s) in overview/ are not listed in overview-images.json`);
+      }
+    }
+  }
+
+  const panorama = (await exists(path.join(projectDir, 'sample', 'sample.webp')))
+    || (await exists(path.join(projectDir, 'sample', 'sample.jpg')));
+  if (!panorama) issue('warning', 'panorama', 'No sample panorama');
+
+  return { id: uuid, name: instance.name, preview: hasPreview, overviewFrames: frameCount, localFrames, panorama };
+}
+
+async function findOrphans(knownIds, issues) {
+  const orphan = (message) => issues.push({ severity: 'warning', check: 'orphan', id: null, name: null, message });
+
+  for (const folder of (await listDir(PROJECTS_DIR)) ?? []) {
+    if (!knownIds.has(folder)) orphan(`projects/${folder} doesn't belong to any catalog entry`);
+  }
+  for (const file of (await listDir(PREVIEWS_DIR)) ?? []) {
+    if (file.endsWith('.webp') && !knownIds.has(file.replace(/\.webp$/, ''))) {
+      orphan(`previews/${file} doesn't belong to any catalog entry`);
+    }
+  }
+}
+
+function toMarkdown(report) {
+  const { summary, instances, issues } = report;
+  const check = (value) => (value ? '✅' : '❌');
+  const lines = [
+    '# Asset health report',
+    '',
+    `Generated ${report.generatedAt}`,
+    '',
+    '| | Count |',
+    '| --- | --- |',
+    `| Catalog entries | ${summary.instances} |`,
+    `| With preview | ${summary.withPreview} |`,
+    `| With overview image set | ${summary.withOverview} |`,
+    `| With sample panorama | ${summary.withPanorama} |`,
+    `| Errors | ${summary.errors} |`,
+    `| Warnings | ${summary.warnings} |`,
+    '',
+  ];
+
+  if (issues.length > 0) {
+    lines.push('## Issues', '', '| Severity | Check | Instance | Message |', '| --- | --- | --- | --- |');
+    issues.forEach((issue) => {
+      const instance = issue.id ? `${issue.name ?? ''} (\`${issue.id}\`)` : '-';
+      lines.push(`| ${issue.severity} | ${issue.check} | ${instance} | ${issue.message.replace(/\|/g, '\\|')} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Instances', '', '| Instance | Preview | Overview frames | Panorama |', '| --- | --- | --- | --- |');
+  instances.forEach((instance) => {
+    const frames = instance.overviewFrames > 0 ? `${instance.localFrames}/${instance.overviewFrames} local` : check(false);
+    lines.push(`| ${instance.name} (\`${instance.id}\`) | ${check(instance.preview)} | ${frames} | ${check(instance.panorama)} |`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+if (!FORMATS.includes(args.format)) {
+  console.error(`Unknown format "${args.format}", expected one of: ${FORMATS.join(', ')}`);
+  process.exit(1);
+}
+
+const catalog = await readJson(path.join(PUBLIC_DIR, 'metadata.json'));
+if (!Array.isArray(catalog.data)) {
+  console.error('public/metadata.json is missing or not an array');
+  process.exit(1);
+}
+
+const issues = [];
+const instances = [];
+for (const instance of catalog.data) {
+  if (!instance || !(instance.uuid || instance.id)) continue;
+  instances.push(await checkInstance(instance, issues));
+}
+await findOrphans(new Set(instances.map((instance) => instance.id)), issues);
+
+// Errors first, then by check, so the report reads top-down by importance
+issues.sort((a, b) => a.severity.localeCompare(b.severity) || a.check.localeCompare(b.check));
+
+const report = {
+  generatedAt: new Date().toISOString(),
+  summary: {
+    instances: instances.length,
+    withPreview: instances.filter((instance) => instance.preview).length,
+    withOverview: instances.filter((instance) => instance.overviewFrames > 0).length,
+    withPanorama: instances.filter((instance) => instance.panorama).length,
+    errors: issues.filter((issue) => issue.severity === 'error').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+  },
+  instances,
+  issues,
+};
+
+const output = args.format === 'json' ? `${JSON.stringify(report, null, 2)}\n` : toMarkdown(report);
+if (args.output) {
+  await fs.writeFile(args.output, output);
+  console.log(`[assets] Report written to ${args.output}`);
+} else {
+  process.stdout.write(output);
+}
+
+const { errors, warnings } = report.summary;
+console.error(`[assets] ${errors} error(s), ${warnings} warning(s)`);
+if (args.strict && errors > 0) process.exit(1);
@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+/**
+ * Build card previews, resized variants and blur placeholders with sharp
+ *
+ * Usage:
+ *   npm run assets:build
+ *   npm run assets:build -- --force
+ *   npm run assets:build -- --only <uuid> --cdn
+ *
+ * For every instance in public/metadata.json:
+ * - previews/<uuid>.webp is generated when missing. Frames listed in
+ *   overview-images.json make an animated WebP in the cards' 16:9;
+ *   without frames, a still is cropped from sample/sample.*. With --cdn,
+ *   frames missing from projects/<uuid>/overview are downloaded. Existing
+ *   previews, hand-made stills included, are only replaced with --force; a
+ *   still that could become an animation is listed in the summary.
+ * - previews/variants/<uuid>-{thumb,card,full}.webp are static resizes of the
+ *   preview's first frame
+ * - a tiny blurred placeholder is inlined as a data URI, along with the
+ *   dominant colour for use before even that has decoded
+ *
+ * Everything is listed in public/assets-manifest.json, which the UI reads at
+ * runtime. Outputs newer than their source are skipped unless --force is
+ * given. Must stay in sync with AssetManifest in app/lib/asset-manifest.ts.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+
+const PUBLIC_DIR = path.resolve('public');
+const PREVIEWS_DIR = path.join(PUBLIC_DIR, 'previews');
+const VARIANTS_DIR = path.join(PREVIEWS_DIR, 'variants');
+const MANIFEST_PATH = path.join(PUBLIC_DIR, 'assets-manifest.json');
+
+const MANIFEST_VERSION = 2;
+const VARIANTS = [
+  { name: 'thumb', width: 200 },
+  { name: 'card', width: 400 },
+  { name: 'full', width: 800 },
+];
+// Same width and pace as the hand-made animated previews, in the cards' 16:9 (aspect-video)
+const ANIMATION = { width: 400, height: 225, maxFrames: 90, delayMs: 60, quality: 70 };
+const STILL_QUALITY = 80;
+const PLACEHOLDER_WIDTH = 16;
+// Share of an equirectangular panorama kept for a still preview, centered
+const PANORAMA_CROP = { width: 0.3, height: 0.5 };
+
+function parseArgs(argv) {
+  const args = { force: false, cdn: false, only: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--force') args.force = true;
+    else if (argv[i] === '--cdn') args.cdn = true;
+    else if (argv[i] === '--only') args.only = argv[++i];
+  }
+  return args;
+}
+
+async function stat(file) {
+  try {
+    return await fs.stat(file);
+  } catch {
+    return null;
+  }
+}
+
+async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+async function isUpToDate(output, sources, force) {
+  if (force) return false;
+  const outputStat = await stat(output);
+  if (!outputStat) return false;
+  const sourceStats = await Promise.all(sources.map(stat));
+  return sourceStats.every((sourceStat) => !sourceStat || sourceStat.mtimeMs <= outputStat.mtimeMs);
+}
+
+async function readFrame(uuid, entry, useCdn) {
+  const fileName = entry.fileName || `${entry.texture}_LOD3.webp`;
+  const local = path.join(PUBLIC_DIR, 'projects', uuid, 'overview', fileName);
+  if (await stat(local)) return { input: local, source: local };
+  if (!useCdn || !entry.url) return null;
+
+  try {
+    const response = await fetch(entry.url, { signal: AbortSignal.timeout(15000) });
+    if (!response.ok) return null;
+    return { input: Buffer.from(await response.arrayBuffer()), source: null };
+  } catch {
+    return null;
+  }
+}
+
+function sampleFrames(entries, maxFrames) {
+  if (entries.length <= maxFrames) return entries;
+  const step = entries.length / maxFrames;
+  return Array.from({ length: maxFrames }, (_, i) => entries[Math.floor(i * step)]);
+}
+
+async function buildAnimatedPreview(uuid, entries, output, args) {
+  const sorted = sampleFrames([...entries].sort((a, b) => a.index - b.index), ANIMATION.maxFrames);
+  const frames = (await Promise.all(sorted.map((entry) => readFrame(uuid, entry, args.cdn)))).filter(Boolean);
+  if (frames.length < 2) return null;
+
+  // join needs equally sized inputs, so normalize every frame first. Frames are
+  // cropped to the card's shape here, so the card shows the whole animation.
+  const buffers = await Promise.all(frames.map((frame) =>
+    sharp(frame.input).resize(ANIMATION.width, ANIMATION.height, { fit: 'cover' }).toBuffer()
+  ));
+  await sharp(buffers, { join: { animated: true } })
+    .webp({ quality: ANIMATION.quality, loop: 0, delay: ANIMATION.delayMs })
+    .toFile(output);
+  return { frames: frames.length };
+}
+
+async function buildStillFromPanorama(panorama, output, args) {
+  if (await isUpToDate(output, [panorama], args.force)) return false;
+  const { width, height } = await sharp(panorama).metadata();
+  const cropWidth = Math.round(width * PANORAMA_CROP.width);
+  const cropHeight = Math.round(height * PANORAMA_CROP.height);
+  await sharp(panorama)
+    .extract({
+      left: Math.round((width - cropWidth) / 2),
+      top: Math.round((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    })
+    .resize({ width: VARIANTS[VARIANTS.length - 1].width, withoutEnlargement: true })
+    .webp({ quality: STILL_QUALITY })
+    .toFile(output);
+  return true;
+}
+
+async function buildVariants(uuid, preview, args) {
+  await fs.mkdir(VARIANTS_DIR, { recursive: true });
+  return Promise.all(VARIANTS.map(async ({ name, width }) => {
+    const fileName = `${uuid}-${name}.webp`;
+    const output = path.join(VARIANTS_DIR, fileName);
+    if (!(await isUpToDate(output, [preview], args.force))) {
+      // pages: 1 keeps only the first frame of animated previews
+      await sharp(preview, { pages: 1 })
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: STILL_QUALITY })
+        .toFile(output);
+    }
+    const metadata = await sharp(output).metadata();
+    return { name, src: `/previews/variants/${fileName}`, width: metadata.width, height: metadata.height };
+  }));
+}
+
+async function buildPlaceholder(preview) {
+  const buffer = await sharp(preview, { pages: 1 })
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+  const { dominant } = await sharp(preview, { pages: 1 }).stats();
+  const color = `#${[dominant.r, dominant.g, dominant.b].map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+  return { placeholder: `data:image/webp;base64,${buffer.toString('base64')}`, color };
+}
+
+async function findPanorama(uuid) {
+  for (const ext of ['webp', 'jpg']) {
+    const file = path.join(PUBLIC_DIR, 'projects', uuid, 'sample', `sample.${ext}`);
+    if (await stat(file)) return file;
+  }
+  return null;
+}
+
+async function processInstance(instance, previous, args, report) {
+  const uuid = instance.uuid || instance.id;
+  const output = path.join(PREVIEWS_DIR, `${uuid}.webp`);
+  const entries = await readJson(path.join(PUBLIC_DIR, 'projects', uuid, 'overview-images.json'), []);
+  const panorama = await findPanorama(uuid);
+
+  const existing = (await stat(output)) ? await sharp(output).metadata() : null;
+  let animated = (existing?.pages ?? 1) > 1;
+  let frames = 0;
+
+  if (entries.length > 0 && existing && !animated && !args.force) {
+    report.keptStills.push(uuid);
+  } else if (entries.length > 0 && (!existing || args.force)) {
+    const result = await buildAnimatedPreview(uuid, entries, output, args);
+    if (result) {
+      frames = result.frames;
+      animated = true;
+      report.animated.push(uuid);
+    }
+  }
+
+  if (!(await stat(output)) && panorama) {
+    if (await buildStillFromPanorama(panorama, output, args)) report.stills.push(uuid);
+    animated = false;
+  }
+
+  if (!(await stat(output))) {
+    report.missing.push(uuid);
+    return null;
+  }
+
+  const metadata = await sharp(output).metadata();
+  const previousEntry = previous?.[uuid];
+  const { placeholder, color } = previousEntry && await isUpToDate(MANIFEST_PATH, [output], args.force)
+    ? previousEntry
+    : await buildPlaceholder(output);
+
+  return {
+    preview: {
+      src: `/previews/${uuid}.webp`,
+      width: metadata.width,
+      height: metadata.pageHeight ?? metadata.height,
+      animated,
+      frames: animated ? frames || metadata.pages : 1,
+    },
+    variants: await buildVariants(uuid, output, args),
+    placeholder,
+    color,
+    panorama: panorama ? `/${path.relative(PUBLIC_DIR, panorama).split(path.sep).join('/')}` : null,
+  };
+}
+
+const args = parseArgs(process.argv.slice(2));
+const instances = await readJson(path.join(PUBLIC_DIR, 'metadata.json'), null);
+
+if (!Array.isArray(instances)) {
+  console.error('public/metadata.json is missing or not an array');
+  process.exit(1);
+}
+
+const previousManifest = await readJson(MANIFEST_PATH, null);
+const previous = previousManifest?.version === MANIFEST_VERSION ? previousManifest.projects : {};
+const report = { animated: [], stills: [], keptStills: [], missing: [] };
+const projects = args.only ? { ...previous } : {};
+
+for (const instance of instances) {
+  const uuid = instance.uuid || instance.id;
+  if (!uuid || (args.only && uuid !== args.only)) continue;
+  try {
+    const entry = await processInstance(instance, previous, args, report);
+    if (entry) projects[uuid] = entry;
+    else delete projects[uuid];
+  } catch (error) {
+    console.error(`[assets] ${uuid}: ${error.message}`);
+    report.missing.push(uuid);
+  }
+}
+
+await fs.writeFile(MANIFEST_PATH, `${JSON.stringify({
+  version: MANIFEST_VERSION,
+  generatedAt: new Date().toISOString(),
+  variants: VARIANTS.map(({ name }) => name),
+  projects,
+}, null, 2)}\n`);
+
+console.log(`[assets] ${Object.keys(projects).length} projects in ${path.relative(process.cwd(), MANIFEST_PATH)}`);
+console.log(`[assets] ${report.animated.length} animated previews and ${report.stills.length} stills generated`);
+if (report.keptStills.length > 0) {
+  console.warn(`[assets] ${report.keptStills.length} still previews kept although the project has frames, pass --force to animate them: ${report.keptStills.join(', ')}`);
+}
+if (report.missing.length > 0) {
+  console.warn(`[assets] ${report.missing.length} instances have no preview source: ${report.missing.join(', ')}`);
+}
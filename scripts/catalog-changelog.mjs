@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+/**
+ * Snapshot public/metadata.json and build the changelog between data releases
+ *
+ * Usage:
+ *   npm run catalog:changelog
+ *   npm run catalog:changelog -- --no-snapshot
+ *
+ * Every distinct version of the catalog is kept in catalog-history/ as
+ * <date>-<hash>.json, holding only the fields the changelog compares. When
+ * metadata.json differs from the newest snapshot a new one is written (skip
+ * with --no-snapshot); commit it along with the catalog change so later builds
+ * can diff against it.
+ *
+ * Consecutive snapshots are diffed into public/catalog-changelog.json: added
+ * and removed instances, feature changes and field changes such as a status
+ * flip from Public to Private. The app reads it for the "What's new" panel and
+ * /instances/changelog. Must stay in sync with CatalogChangelog in
+ * app/lib/changelog.ts.
+ */
+
+import { createHash } from 'crypto';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+const CATALOG_PATH = path.join(PUBLIC_DIR, 'metadata.json');
+const HISTORY_DIR = path.resolve('catalog-history');
+const CHANGELOG_PATH = path.join(PUBLIC_DIR, 'catalog-changelog.json');
+
+const CHANGELOG_VERSION = 1;
+// Older releases stay in catalog-history/ but aren't shipped to the browser
+const MAX_RELEASES = 20;
+// Compared one by one; features are diffed as a set
+const TRACKED_FIELDS = ['name', 'client', 'type', 'status', 'hidden', 'link'];
+
+function parseArgs(argv) {
+  const args = { snapshot: true };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--no-snapshot') args.snapshot = false;
+  }
+  return args;
+}
+
+async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+function toSnapshotInstance(record) {
+  const instance = { id: String(record.id || record.uuid), name: record.name };
+  TRACKED_FIELDS.forEach((field) => {
+    if (field !== 'name' && record[field] !== undefined && record[field] !== '') instance[field] = record[field];
+  });
+  instance.features = Array.isArray(record.features) ? [...new Set(record.features)].sort() : [];
+  return instance;
+}
+
+function hashInstances(instances) {
+  return createHash('sha256').update(JSON.stringify(instances)).digest('hex').slice(0, 12);
+}
+
+// When the catalog last changed in git, so every deploy of a commit gives the snapshot the same date.
+// Null for uncommitted edits, which are dated now.
+function catalogCommitDate() {
+  try {
+    const dirty = execFileSync('git', ['status', '--porcelain', '--', CATALOG_PATH], { encoding: 'utf8' }).trim();
+    if (dirty) return null;
+    const date = execFileSync('git', ['log', '-1', '--format=%cI', '--', CATALOG_PATH], { encoding: 'utf8' }).trim();
+    return date ? new Date(date).toISOString() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readSnapshots() {
+  let files = [];
+  try {
+    files = (await fs.readdir(HISTORY_DIR)).filter((file) => file.endsWith('.json'));
+  } catch {
+    // No history yet
+  }
+  const snapshots = await Promise.all(files.map((file) => readJson(path.join(HISTORY_DIR, file), null)));
+  return snapshots
+    .filter((snapshot) => snapshot && Array.isArray(snapshot.instances))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function summarize(instance) {
+  const { id, name, client, type, status, hidden } = instance;
+  return { id, name, client, type, status, hidden };
+}
+
+function diffSnapshots(previous, current) {
+  const before = new Map(previous.instances.map((instance) => [instance.id, instance]));
+  const after = new Map(current.instances.map((instance) => [instance.id, instance]));
+
+  const added = current.instances.filter((instance) => !before.has(instance.id)).map(summarize);
+  const removed = previous.instances.filter((instance) => !after.has(instance.id)).map(summarize);
+  const changed = [];
+
+  current.instances.forEach((instance) => {
+    const old = before.get(instance.id);
+    if (!old) return;
+    const fields = TRACKED_FIELDS
+      .filter((field) => old[field] !== instance[field])
+      .map((field) => ({ field, from: old[field] ?? null, to: instance[field] ?? null }));
+    const featuresAdded = instance.features.filter((feature) => !old.features.includes(feature));
+    const featuresRemoved = old.features.filter((feature) => !instance.features.includes(feature));
+    if (fields.length === 0 && featuresAdded.length === 0 && featuresRemoved.length === 0) return;
+
+    changed.push({
+      ...summarize(instance),
+      // Visibility before the change, so a flip to Private is still listed for roles that could see it
+      previousStatus: old.status,
+      previousHidden: old.hidden,
+      fields,
+      features: { added: featuresAdded, removed: featuresRemoved },
+    });
+  });
+
+  return {
+    id: current.hash,
+    date: current.createdAt,
+    previous: previous.hash,
+    added,
+    removed,
+    changed,
+  };
+}
+
+const args = parseArgs(process.argv.slice(2));
+const catalog = await readJson(CATALOG_PATH, null);
+
+if (!Array.isArray(catalog)) {
+  console.error('public/metadata.json is missing or not an array');
+  process.exit(1);
+}
+
+const instances = catalog
+  .filter((record) => record && (record.id || record.uuid) && record.name)
+  .map(toSnapshotInstance)
+  .sort((a, b) => a.id.localeCompare(b.id));
+const hash = hashInstances(instances);
+const snapshots = await readSnapshots();
+
+if (snapshots[snapshots.length - 1]?.hash !== hash) {
+  const snapshot = { hash, createdAt: catalogCommitDate() ?? new Date().toISOString(), instances };
+  snapshots.push(snapshot);
+  if (args.snapshot) {
+    const file = path.join(HISTORY_DIR, `${snapshot.createdAt.slice(0, 10)}-${hash}.json`);
+    await fs.mkdir(HISTORY_DIR, { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+    console.log(`[catalog] New snapshot ${path.relative(process.cwd(), file)}, commit it with the catalog`);
+  }
+}
+
+const releases = [];
+for (let i = snapshots.length - 1; i > 0 && releases.length < MAX_RELEASES; i--) {
+  releases.push(diffSnapshots(snapshots[i - 1], snapshots[i]));
+}
+
+await fs.writeFile(CHANGELOG_PATH, `${JSON.stringify({
+  version: CHANGELOG_VERSION,
+  generatedAt: new Date().toISOString(),
+  current: hash,
+  releases,
+}, null, 2)}\n`);
+
+const latest = releases[0];
+console.log(`[catalog] ${snapshots.length} snapshots, ${releases.length} releases in ${path.relative(process.cwd(), CHANGELOG_PATH)}`);
+if (latest) {
+  console.log(`[catalog] Latest: ${latest.added.length} added, ${latest.removed.length} removed, ${latest.changed.length} changed`);
+}
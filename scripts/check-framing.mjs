@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+/**
+ * Find project hosts that refuse to be shown in the launcher's iframe
+ *
+ * Usage:
+ *   npm run launcher:framing
+ *   npm run launcher:framing -- --origin https://sales.example.com
+ *
+ * A browser that blocks a frame (X-Frame-Options, or CSP frame-ancestors)
+ * still fires `load` on it, so the page can't tell a refused project from one
+ * that works. This script requests one link per host in public/metadata.json
+ * and reads those headers instead. Hosts that refuse are listed in
+ * public/launcher-manifest.json, which the launcher reads at runtime to open
+ * them in a new tab straight away. Must stay in sync with LauncherManifest in
+ * app/lib/launcher.ts.
+ *
+ * frame-ancestors lists are checked against --origin, the origin the
+ * showcase is served from; without it, only `*` and `https:` count as
+ * allowing the showcase. A host that can't be reached is a warning and is
+ * left out, so the build never depends on a client's website being up.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+const CATALOG_PATH = path.join(PUBLIC_DIR, 'metadata.json');
+const MANIFEST_PATH = path.join(PUBLIC_DIR, 'launcher-manifest.json');
+
+const MANIFEST_VERSION = 1;
+const TIMEOUT_MS = 10000;
+
+function parseArgs(argv) {
+  const args = { origin: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--origin') args.origin = argv[++i] ?? null;
+  }
+  return args;
+}
+
+async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+function parseHttpUrl(value) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a frame-ancestors source expression matches the showcase origin
+function sourceAllows(source, origin) {
+  if (source === '*') return true;
+  if (source === 'https:') return !origin || origin.protocol === 'https:';
+  if (!origin) return false;
+  const match = source.match(/^(?:(https?):\/\/)?(\*\.)?([^:/]+)(?::(\d+|\*))?/i);
+  if (!match) return false;
+  const [, scheme, wildcard, host, port] = match;
+  if (scheme && `${scheme.toLowerCase()}:` !== origin.protocol) return false;
+  if (port && port !== '*' && port !== (origin.port || (origin.protocol === 'https:' ? '443' : '80'))) return false;
+  const hostname = origin.hostname.toLowerCase();
+  return wildcard ? hostname.endsWith(`.${host.toLowerCase()}`) : hostname === host.toLowerCase();
+}
+
+/**
+ * Why the response can't be framed by the showcase, or null when it can
+ */
+function framingRefusal(headers, origin, sameOrigin) {
+  const csp = headers.get('content-security-policy');
+  const frameAncestors = csp
+    ?.split(',')
+    .flatMap((policy) => policy.split(';'))
+    .map((directive) => directive.trim().split(/\s+/))
+    .find(([name]) => name?.toLowerCase() === 'frame-ancestors');
+  // frame-ancestors overrides X-Frame-Options in browsers that support it
+  if (frameAncestors) {
+    const sources = frameAncestors.slice(1);
+    return sources.some((source) => sourceAllows(source, origin)) ? null : `frame-ancestors ${sources.join(' ') || "'none'"}`;
+  }
+
+  const xFrameOptions = headers.get('x-frame-options')?.trim().toUpperCase();
+  if (!xFrameOptions) return null;
+  if (xFrameOptions === 'SAMEORIGIN' && sameOrigin) return null;
+  return `X-Frame-Options ${xFrameOptions}`;
+}
+
+async function checkLink(url, origin) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT_MS), redirect: 'follow' });
+  // Only the headers matter
+  await response.body?.cancel();
+  // SAMEORIGIN only lets the showcase frame pages on its own origin
+  const sameOrigin = origin !== null && new URL(response.url).origin === origin.origin;
+  return framingRefusal(response.headers, origin, sameOrigin);
+}
+
+const args = parseArgs(process.argv.slice(2));
+const origin = args.origin ? parseHttpUrl(args.origin) : null;
+if (args.origin && !origin) {
+  console.error(`--origin must be an http(s) URL, got ${args.origin}`);
+  process.exit(1);
+}
+
+const catalog = await readJson(CATALOG_PATH, null);
+if (!Array.isArray(catalog)) {
+  console.error('public/metadata.json is missing or not an array');
+  process.exit(1);
+}
+
+// One link per host; framing headers are set per site, not per project
+const linksByHost = new Map();
+for (const instance of catalog) {
+  const url = parseHttpUrl(instance?.link);
+  if (url && !linksByHost.has(url.host)) linksByHost.set(url.host, url.href);
+}
+
+const refusedHosts = [];
+const unreachable = [];
+for (const [host, link] of linksByHost) {
+  try {
+    const refusal = await checkLink(link, origin);
+    if (refusal) {
+      refusedHosts.push(host);
+      console.log(`[launcher] ${host} refuses framing (${refusal})`);
+    }
+  } catch {
+    unreachable.push(host);
+  }
+}
+
+await fs.writeFile(MANIFEST_PATH, `${JSON.stringify({
+  version: MANIFEST_VERSION,
+  generatedAt: new Date().toISOString(),
+  refusedHosts: refusedHosts.sort(),
+}, null, 2)}\n`);
+
+console.log(`[launcher] ${refusedHosts.length} of ${linksByHost.size} hosts open in a new tab, listed in ${path.relative(process.cwd(), MANIFEST_PATH)}`);
+if (unreachable.length > 0) {
+  console.warn(`[launcher] Could not reach ${unreachable.length} hosts: ${unreachable.join(', ')}`);
+}
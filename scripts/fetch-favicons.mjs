@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+/**
+ * Download client favicons into public/ so the site never loads them remotely
+ *
+ * Usage:
+ *   npm run clients:favicons
+ *   npm run clients:favicons -- --force
+ *
+ * For every client in clients.config.json with a remote `favicon` URL or a
+ * `website`, the icon is saved as public/clients/favicons/<slug>.<ext>. For a
+ * website the largest icon linked from the page is used, then /favicon.ico. Clients with a local `logo` or `favicon` are
+ * skipped. Files already downloaded are kept unless --force is given.
+ *
+ * Everything is listed in public/clients-manifest.json, which the UI reads at
+ * runtime. Must stay in sync with ClientManifest in app/lib/clients.ts.
+ * A failed download is a warning, not an error, so the build never depends on
+ * a client's website being up.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+const FAVICONS_DIR = path.join(PUBLIC_DIR, 'clients', 'favicons');
+const MANIFEST_PATH = path.join(PUBLIC_DIR, 'clients-manifest.json');
+const CONFIG_PATH = path.resolve('clients.config.json');
+
+const MANIFEST_VERSION = 1;
+const TIMEOUT_MS = 10000;
+const EXTENSIONS = {
+  'image/png': 'png',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'image/svg+xml': 'svg',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+function parseArgs(argv) {
+  const args = { force: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--force') args.force = true;
+  }
+  return args;
+}
+
+async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+// Must stay in sync with clientSlug in app/lib/clients.ts
+function clientSlug(name) {
+  return name
+    .toLowerCase()
+    .replace(/ø/g, 'o')
+    .replace(/æ/g, 'ae')
+    .replace(/å/g, 'a')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+const isRemote = (value) => typeof value === 'string' && /^https?:\/\//.test(value);
+const isLocal = (value) => typeof value === 'string' && (value.startsWith('/') || value.startsWith('data:'));
+
+async function fetchWithTimeout(url) {
+  return fetch(url, { signal: AbortSignal.timeout(TIMEOUT_MS), redirect: 'follow' });
+}
+
+// <link rel="icon" href="..." sizes="32x32">, biggest first (apple-touch-icons without sizes count as 180px)
+function findIconLinks(html, pageUrl) {
+  const links = [];
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const rel = tag.match(/\brel=["']([^"']+)["']/i)?.[1].toLowerCase() ?? '';
+    const href = tag.match(/\bhref=["']([^"']+)["']/i)?.[1];
+    if (!href || !/\b(icon|apple-touch-icon)\b/.test(rel)) continue;
+    const size = Number(tag.match(/\bsizes=["'](\d+)x\d+["']/i)?.[1] ?? (rel.includes('apple') ? 180 : 16));
+    try {
+      links.push({ url: new URL(href, pageUrl).href, size });
+    } catch {
+      // Malformed href
+    }
+  }
+  return links.sort((a, b) => b.size - a.size).map((link) => link.url);
+}
+
+async function iconCandidates(client) {
+  if (isRemote(client.favicon)) return [client.favicon];
+  if (!isRemote(client.website)) return [];
+
+  const candidates = [];
+  try {
+    const response = await fetchWithTimeout(client.website);
+    if (response.ok) candidates.push(...findIconLinks(await response.text(), response.url));
+  } catch {
+    // Fall back to /favicon.ico
+  }
+  candidates.push(new URL('/favicon.ico', client.website).href);
+  return candidates;
+}
+
+async function downloadIcon(urls) {
+  for (const url of urls) {
+    try {
+      const response = await fetchWithTimeout(url);
+      const type = response.headers.get('content-type')?.split(';')[0].trim();
+      if (!response.ok || !EXTENSIONS[type]) continue;
+      return { data: Buffer.from(await response.arrayBuffer()), ext: EXTENSIONS[type] };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+async function findExisting(slug) {
+  const files = await fs.readdir(FAVICONS_DIR).catch(() => []);
+  return files.find((file) => file.replace(/\.[^.]+$/, '') === slug) ?? null;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const config = await readJson(CONFIG_PATH, null);
+
+if (!config || typeof config !== 'object') {
+  console.error('clients.config.json is missing or not an object');
+  process.exit(1);
+}
+
+await fs.mkdir(FAVICONS_DIR, { recursive: true });
+const favicons = {};
+const failed = [];
+let downloaded = 0;
+
+for (const [key, client] of Object.entries(config)) {
+  const slug = clientSlug(client.name || key);
+  if (isLocal(client.logo) || isLocal(client.favicon)) continue;
+  if (!isRemote(client.favicon) && !isRemote(client.website)) continue;
+
+  const existing = await findExisting(slug);
+  if (existing && !args.force) {
+    favicons[slug] = `/clients/favicons/${existing}`;
+    continue;
+  }
+
+  const icon = await downloadIcon(await iconCandidates(client));
+  if (!icon) {
+    // Keep the previous download when a forced refresh fails
+    if (existing) favicons[slug] = `/clients/favicons/${existing}`;
+    failed.push(client.name || key);
+    continue;
+  }
+  if (existing) await fs.rm(path.join(FAVICONS_DIR, existing));
+  const fileName = `${slug}.${icon.ext}`;
+  await fs.writeFile(path.join(FAVICONS_DIR, fileName), icon.data);
+  favicons[slug] = `/clients/favicons/${fileName}`;
+  downloaded++;
+}
+
+await fs.writeFile(MANIFEST_PATH, `${JSON.stringify({
+  version: MANIFEST_VERSION,
+  generatedAt: new Date().toISOString(),
+  favicons,
+}, null, 2)}\n`);
+
+console.log(`[clients] ${Object.keys(favicons).length} favicons in ${path.relative(process.cwd(), MANIFEST_PATH)} (${downloaded} downloaded)`);
+if (failed.length > 0) {
+  console.warn(`[clients] No favicon found for ${failed.length} clients: ${failed.join(', ')}`);
+}
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/**
+ * Hash a login credential for auth.config.json
+ *
+ * Usage:
+ *   npm run auth:hash -- --id sales --name "Sales team" --password <password>
+ *   npm run auth:hash -- --id kari --name "Kari" --username kari --role admin --password <password>
+ *
+ * Prints a credential entry to paste into auth.config.json, or to store as the
+ * SALES_AUTH_CREDENTIAL repository secret for the deploy build. The password
+ * itself is never written anywhere. Must stay in sync with app/lib/auth.ts.
+ */
+
+import crypto from 'crypto';
+
+const ITERATIONS = 210000;
+const ROLES = ['sales', 'partner', 'admin'];
+const SALT_BYTES = 16;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+if (!args.id || !args.password) {
+  console.error('Usage: npm run auth:hash -- --id <id> --password <password> [--name <label>] [--username <username>] [--role sales|partner|admin]');
+  process.exit(1);
+}
+
+if (args.role && !ROLES.includes(args.role)) {
+  console.error(`Unknown role "${args.role}", expected one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+
+const salt = crypto.randomBytes(SALT_BYTES);
+// First half verifies the password, second half signs sessions and is never published
+const derived = crypto.pbkdf2Sync(args.password, salt, ITERATIONS, 64, 'sha256');
+const verifier = derived.subarray(0, 32);
+const sessionKey = derived.subarray(32, 64);
+
+const credential = {
+  id: args.id,
+  name: args.name || args.id,
+  ...(args.username ? { username: args.username } : {}),
+  role: args.role || 'sales',
+  salt: salt.toString('base64'),
+  iterations: ITERATIONS,
+  verifier: verifier.toString('base64'),
+  keyCheck: crypto.createHash('sha256').update(sessionKey).digest('base64'),
+};
+
+console.log(JSON.stringify(credential, null, 2));
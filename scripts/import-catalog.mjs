@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+/**
+ * Merge a Plyo API/UUID export into public/metadata.json
+ *
+ * Usage:
+ *   npm run catalog:import -- <export.json>
+ *   npm run catalog:import -- <export.json> --write
+ *   npm run catalog:import -- <export.json> --write --prune --batch <id>
+ *
+ * The export is an array of project records (or an object with a `projects`,
+ * `data` or `items` array). Each record is matched to a catalog entry by UUID,
+ * then by any of the entry's `uuids`, then by link; entries added by earlier
+ * records of the same export count too. API-owned fields (name,
+ * link, type, features, isShowcase, status, dates and unit counts) are taken
+ * from the export; fields edited in the app (verified, featured, hidden,
+ * active, description and a non-empty client) are never overwritten. Added
+ * and changed entries are stamped with `importedAt` and `batchImportId`.
+ *
+ * The diff of added, changed and removed instances is always printed; the
+ * catalog is only written with --write. Entries missing from the export are
+ * kept unless --prune is given.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+const CATALOG_PATH = path.join(PUBLIC_DIR, 'metadata.json');
+
+const INSTANCE_TYPES = ['Showroom', 'Unit Finder'];
+// Same mapping as LEGACY_TYPE_NAMES in app/lib/catalog.ts
+const LEGACY_TYPE_NAMES = { 'Virtual Showroom': 'Showroom', 'Apartment Chooser': 'Unit Finder' };
+
+// Owned by the API; the export wins whenever it has a value
+const IMPORTED_FIELDS = [
+  'name', 'link', 'type', 'features', 'isShowcase', 'status', 'created', 'updated',
+  'totalUnits', 'soldUnits', 'availableUnits', 'groups', 'groupsStats',
+];
+// Only filled in from the export while the catalog has no value
+const USER_FIELDS = ['client'];
+// Bookkeeping, left out of the diff so a re-import of the same export is a no-op
+const STAMP_FIELDS = ['importedAt', 'batchImportId'];
+
+function parseArgs(argv) {
+  const args = { file: null, write: false, prune: false, batch: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--write') args.write = true;
+    else if (argv[i] === '--prune') args.prune = true;
+    else if (argv[i] === '--batch') args.batch = argv[++i];
+    else if (!argv[i].startsWith('--')) args.file = argv[i];
+  }
+  return args;
+}
+
+async function readJson(file) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    console.error(`Can't read ${file}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+function defaultBatchId(date) {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `import-${stamp}`;
+}
+
+// Links differ in protocol, case and trailing slashes between exports
+function normalizeLink(link) {
+  return isNonEmptyString(link) ? link.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '') : null;
+}
+
+function readUrls(record) {
+  const urls = Array.isArray(record.urls) ? record.urls : [record.url ?? record.link].filter(Boolean);
+  return urls
+    .map((entry) => (typeof entry === 'string'
+      ? { url: entry, public: undefined }
+      : { url: entry?.url ?? entry?.link, public: entry?.access ? entry.access === 'public' : entry?.public ?? entry?.isPublic }))
+    .filter((entry) => isNonEmptyString(entry.url));
+}
+
+function readCount(value) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Map one export record to catalog fields. Returns `{ error }` when the
+ * record can't be imported.
+ */
+function fromExportRecord(record) {
+  if (!record || typeof record !== 'object') return { error: 'not an object' };
+  const uuid = [record.uuid, record.id, record.projectId].find(isNonEmptyString)?.trim();
+  if (!uuid) return { error: 'no uuid' };
+  const name = [record.name, record.title].find(isNonEmptyString)?.trim();
+  if (!name) return { error: `${uuid} has no name` };
+
+  const urls = readUrls(record);
+  const publicUrls = urls.filter((entry) => entry.public === true);
+  const hasAccessInfo = urls.some((entry) => entry.public !== undefined);
+  const type = INSTANCE_TYPES.includes(record.type) ? record.type : LEGACY_TYPE_NAMES[record.type];
+
+  const fields = {
+    name,
+    link: (publicUrls[0] ?? urls[0])?.url.trim(),
+    type,
+    features: Array.isArray(record.features) ? [...new Set(record.features.filter(isNonEmptyString))] : undefined,
+    isShowcase: typeof record.isShowcase === 'boolean' ? record.isShowcase : undefined,
+    // "Public" as soon as one URL is publicly accessible
+    status: hasAccessInfo
+      ? (publicUrls.length > 0 ? 'Public' : 'Private')
+      : (record.status === 'Public' || record.status === 'Private' ? record.status : undefined),
+    created: [record.created, record.createdAt].find(isNonEmptyString),
+    updated: [record.updated, record.updatedAt].find(isNonEmptyString),
+    totalUnits: readCount(record.totalUnits),
+    soldUnits: readCount(record.soldUnits),
+    availableUnits: readCount(record.availableUnits),
+    groups: readCount(record.groups),
+    groupsStats: Array.isArray(record.groupsStats) ? record.groupsStats : undefined,
+    client: [record.client, record.customer].find(isNonEmptyString)?.trim(),
+  };
+
+  return { uuid, links: urls.map((entry) => normalizeLink(entry.url)), fields };
+}
+
+function addToIndex(index, entry) {
+  [entry.uuid, entry.id, ...(entry.uuids ?? [])].filter(isNonEmptyString).forEach((uuid) => {
+    if (!index.byUuid.has(uuid)) index.byUuid.set(uuid, entry);
+  });
+  const link = normalizeLink(entry.link);
+  if (link && !index.byLink.has(link)) index.byLink.set(link, entry);
+}
+
+function indexCatalog(catalog) {
+  const index = { byUuid: new Map(), byLink: new Map() };
+  catalog.forEach((entry) => addToIndex(index, entry));
+  return index;
+}
+
+function findEntry(index, imported) {
+  return index.byUuid.get(imported.uuid)
+    ?? imported.links.map((link) => link && index.byLink.get(link)).find(Boolean)
+    ?? null;
+}
+
+async function exists(file) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Same key order as the hand-maintained entries, so diffs of metadata.json stay readable
+async function createEntry(imported, stamp) {
+  const { uuid, fields } = imported;
+  const preview = `/previews/${uuid}.webp`;
+  const entry = {
+    id: uuid,
+    uuid,
+    name: fields.name,
+    client: fields.client ?? '',
+    link: fields.link ?? '',
+    type: fields.type,
+    features: fields.features ?? [],
+    image: (await exists(path.join(PUBLIC_DIR, preview))) ? preview : null,
+    isShowcase: fields.isShowcase ?? false,
+    status: fields.status,
+  };
+  IMPORTED_FIELDS.forEach((field) => {
+    if (!(field in entry) && fields[field] !== undefined) entry[field] = fields[field];
+  });
+  return { ...entry, isUuidBased: true, ...stamp };
+}
+
+// Returns the updated entry and the fields that changed, as [field, before, after]
+function mergeEntry(entry, imported, stamp) {
+  const next = { ...entry };
+  IMPORTED_FIELDS.forEach((field) => {
+    if (imported.fields[field] !== undefined) next[field] = imported.fields[field];
+  });
+  // Don't churn links that only differ in protocol or trailing slash
+  if (normalizeLink(entry.link) === normalizeLink(next.link)) next.link = entry.link;
+  USER_FIELDS.forEach((field) => {
+    if (!isNonEmptyString(next[field]) && imported.fields[field] !== undefined) next[field] = imported.fields[field];
+  });
+  // `uuids` collects export records matched to an entry by link or by another of its uuids
+  const uuids = [...new Set([...(entry.uuids ?? []), imported.uuid])];
+  if (uuids.length !== (entry.uuids ?? []).length && (entry.uuids || imported.uuid !== entry.uuid)) next.uuids = uuids;
+  if (entry.uuid === imported.uuid && entry.isUuidBased === undefined) next.isUuidBased = true;
+
+  const changes = Object.keys(next)
+    .filter((field) => !STAMP_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(entry[field]) !== JSON.stringify(next[field]))
+    .map((field) => [field, entry[field], next[field]]);
+
+  return { entry: changes.length > 0 ? { ...next, ...stamp } : entry, changes };
+}
+
+function describe(entry) {
+  return `${entry.name} (${entry.uuid || entry.id})`;
+}
+
+function formatValue(value) {
+  if (value === undefined) return '(none)';
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
+
+function printDiff({ added, changed, removed, unchanged, skipped }, args) {
+  const lines = [];
+  const section = (title, items, render) => {
+    if (items.length === 0) return;
+    lines.push('', `${title} (${items.length})`);
+    items.forEach((item) => lines.push(...render(item)));
+  };
+
+  section('Added', added, (entry) => [`  + ${describe(entry)}`]);
+  section('Changed', changed, ({ entry, changes }) => [
+    `  ~ ${describe(entry)}`,
+    ...changes.map(([field, before, after]) => `      ${field}: ${formatValue(before)} -> ${formatValue(after)}`),
+  ]);
+  section(args.prune ? 'Removed' : 'Not in export, kept (pass --prune to remove)', removed, (entry) => [`  - ${describe(entry)}`]);
+  section('Skipped export records', skipped, (reason) => [`  ! ${reason}`]);
+
+  console.log(lines.join('\n'));
+  console.log(`\n[catalog] ${added.length} added, ${changed.length} changed, ${removed.length} ${args.prune ? 'removed' : 'not in export'}, ${unchanged} unchanged`);
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+if (!args.file) {
+  console.error('Usage: npm run catalog:import -- <export.json> [--write] [--prune] [--batch <id>]');
+  process.exit(1);
+}
+
+const exported = await readJson(path.resolve(args.file));
+const records = Array.isArray(exported)
+  ? exported
+  : [exported?.projects, exported?.data, exported?.items].find(Array.isArray);
+if (!records) {
+  console.error(`${args.file} doesn't contain an array of projects`);
+  process.exit(1);
+}
+
+const catalog = await readJson(CATALOG_PATH);
+if (!Array.isArray(catalog)) {
+  console.error('public/metadata.json is not an array');
+  process.exit(1);
+}
+
+const now = new Date();
+const stamp = { importedAt: now.toISOString(), batchImportId: args.batch || defaultBatchId(now) };
+const index = indexCatalog(catalog);
+const merged = new Map(catalog.map((entry) => [entry, entry]));
+const changedEntries = new Map();
+const matched = new Set();
+const added = [];
+const skipped = [];
+const seenUuids = new Set();
+
+for (const record of records) {
+  const imported = fromExportRecord(record);
+  if (imported.error) {
+    skipped.push(imported.error);
+    continue;
+  }
+  if (seenUuids.has(imported.uuid)) {
+    skipped.push(`${imported.uuid} appears more than once`);
+    continue;
+  }
+  seenUuids.add(imported.uuid);
+
+  const original = findEntry(index, imported);
+  if (!original) {
+    if (!imported.fields.type) {
+      skipped.push(`${imported.uuid} has unknown type ${JSON.stringify(record.type)}`);
+      continue;
+    }
+    const entry = await createEntry(imported, stamp);
+    added.push(entry);
+    merged.set(entry, entry);
+    // Later records with the same link merge into it instead of being added again
+    addToIndex(index, entry);
+    continue;
+  }
+
+  // Several export records can point at one entry (e.g. the same link under two UUIDs)
+  const { entry, changes } = mergeEntry(merged.get(original), imported, stamp);
+  merged.set(original, entry);
+  // Entries created by this import are listed as added, with the merged fields
+  if (added.includes(original)) continue;
+  matched.add(original);
+  if (changes.length > 0) {
+    changedEntries.set(original, [...(changedEntries.get(original) ?? []), ...changes]);
+  }
+}
+
+const removed = catalog.filter((entry) => !matched.has(entry));
+const changed = [...changedEntries].map(([original, changes]) => ({ entry: merged.get(original), changes }));
+
+console.log(`[catalog] Batch ${stamp.batchImportId}: ${records.length} records in ${args.file}`);
+printDiff({ added: added.map((entry) => merged.get(entry)), changed, removed, unchanged: matched.size - changed.length, skipped }, args);
+
+if (!args.write) {
+  console.log('[catalog] Dry run, pass --write to update public/metadata.json');
+  process.exit(0);
+}
+
+if (added.length === 0 && changed.length === 0 && (!args.prune || removed.length === 0)) {
+  console.log('[catalog] Nothing to write');
+  process.exit(0);
+}
+
+const next = [
+  ...catalog.filter((entry) => !args.prune || matched.has(entry)).map((entry) => merged.get(entry)),
+  ...added.map((entry) => merged.get(entry)),
+];
+await fs.writeFile(CATALOG_PATH, `${JSON.stringify(next, null, 2)}\n`);
+console.log(`[catalog] Wrote ${next.length} instances to ${path.relative(process.cwd(), CATALOG_PATH)}`);
+console.log('[catalog] Run npm run catalog:changelog to snapshot this release');